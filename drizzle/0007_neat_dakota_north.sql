@@ -0,0 +1,2 @@
+ALTER TABLE `scanned_image` ADD `model` text;--> statement-breakpoint
+UPDATE `scanned_image` SET `model` = 'llama3.2-vision:latest' WHERE `model` IS NULL;
\ No newline at end of file
@@ -0,0 +1,61 @@
+CREATE TABLE `scanned_page` (
+	`id` text PRIMARY KEY NOT NULL,
+	`image_id` text NOT NULL,
+	`page_number` integer NOT NULL,
+	`image_key` text NOT NULL,
+	`width` integer,
+	`height` integer,
+	`text` text,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`processing_time_ms` integer,
+	`error_message` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`image_id`) REFERENCES `scanned_image`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scanned_page_image_page_idx` ON `scanned_page` (`image_id`,`page_number`);--> statement-breakpoint
+WITH RECURSIVE `split`(`image_id`, `page_number`, `page_text`, `rest`) AS (
+	SELECT `id`, 0, NULL, `extracted_text` || char(10, 10) || '---PAGE_BREAK---' || char(10, 10)
+	FROM `scanned_image`
+	WHERE `extracted_text` IS NOT NULL
+	UNION ALL
+	SELECT
+		`image_id`,
+		`page_number` + 1,
+		substr(`rest`, 1, instr(`rest`, char(10, 10) || '---PAGE_BREAK---' || char(10, 10)) - 1),
+		substr(`rest`, instr(`rest`, char(10, 10) || '---PAGE_BREAK---' || char(10, 10)) + 20)
+	FROM `split`
+	WHERE `rest` <> ''
+),
+`page`(`image_id`, `page_number`, `image_key`, `width`, `height`, `processing_time_ms`) AS (
+	SELECT `scanned_image`.`id`, `entry`.`key` + 1, `entry`.`value`, NULL, NULL, NULL
+	FROM `scanned_image`, json_each(`scanned_image`.`page_images`) AS `entry`
+	WHERE `scanned_image`.`is_pdf` = 1 AND json_valid(`scanned_image`.`page_images`)
+	UNION ALL
+	SELECT `id`, 1, `image_key`, `width`, `height`, `processing_time_ms`
+	FROM `scanned_image`
+	WHERE NOT (`is_pdf` = 1 AND json_valid(`page_images`) AND json_array_length(`page_images`) > 0)
+)
+INSERT INTO `scanned_page` (`id`, `image_id`, `page_number`, `image_key`, `width`, `height`, `text`, `status`, `processing_time_ms`, `error_message`, `created_at`, `updated_at`)
+SELECT
+	lower(hex(randomblob(16))),
+	`page`.`image_id`,
+	`page`.`page_number`,
+	`page`.`image_key`,
+	`page`.`width`,
+	`page`.`height`,
+	nullif(`split`.`page_text`, ''),
+	CASE
+		WHEN coalesce(`split`.`page_text`, '') <> '' OR `scanned_image`.`status` = 'completed' THEN 'completed'
+		WHEN `scanned_image`.`status` IN ('partial', 'failed') THEN 'failed'
+		ELSE 'pending'
+	END,
+	`page`.`processing_time_ms`,
+	CASE WHEN `scanned_image`.`status` = 'failed' THEN `scanned_image`.`error_message` END,
+	`scanned_image`.`created_at`,
+	`scanned_image`.`updated_at`
+FROM `page`
+JOIN `scanned_image` ON `scanned_image`.`id` = `page`.`image_id`
+LEFT JOIN `split` ON `split`.`image_id` = `page`.`image_id` AND `split`.`page_number` = `page`.`page_number`;--> statement-breakpoint
+UPDATE `scanned_image` SET `extracted_text` = replace(`extracted_text`, char(10, 10) || '---PAGE_BREAK---' || char(10, 10), char(10, 10)) WHERE `extracted_text` LIKE '%---PAGE_BREAK---%';
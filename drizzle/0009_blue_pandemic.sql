@@ -0,0 +1,2 @@
+ALTER TABLE `scanned_page` ADD `confidence` real;--> statement-breakpoint
+CREATE INDEX `scanned_image_confidence_idx` ON `scanned_image` (`user_id`,`confidence`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `scanned_page` ADD `language` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `scanned_image` ADD `output_format` text DEFAULT 'text' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `scanned_image` ADD `extraction_schema` text;--> statement-breakpoint
+ALTER TABLE `scanned_image` ADD `extracted_data` text;--> statement-breakpoint
+ALTER TABLE `scanned_image` ADD `extraction_error` text;
\ No newline at end of file
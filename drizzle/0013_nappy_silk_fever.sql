@@ -0,0 +1,16 @@
+CREATE TABLE `template` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`prompt` text,
+	`output_format` text DEFAULT 'text' NOT NULL,
+	`schema` text,
+	`model` text,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `template_user_idx` ON `template` (`user_id`);--> statement-breakpoint
+ALTER TABLE `scanned_image` ADD `template_id` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `scanned_image` ADD `translate_to` text;--> statement-breakpoint
+ALTER TABLE `scanned_image` ADD `translated_text` text;--> statement-breakpoint
+ALTER TABLE `scanned_image` ADD `translation_error` text;--> statement-breakpoint
+ALTER TABLE `scanned_page` ADD `translated_text` text;
\ No newline at end of file
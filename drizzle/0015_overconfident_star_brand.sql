@@ -0,0 +1 @@
+ALTER TABLE `scanned_image` ADD `summary` text;
\ No newline at end of file
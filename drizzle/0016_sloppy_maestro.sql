@@ -0,0 +1,2 @@
+ALTER TABLE `scanned_image` ADD `layout` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `scanned_page` ADD `layout` text;
\ No newline at end of file
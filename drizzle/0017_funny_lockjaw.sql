@@ -0,0 +1,3 @@
+ALTER TABLE `scanned_page` ADD `embedded_text` text;--> statement-breakpoint
+ALTER TABLE `scanned_page` ADD `method` text;--> statement-breakpoint
+ALTER TABLE `usage_record` ADD `text_layer_pages` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `scanned_image` ADD `page_range` text;
\ No newline at end of file
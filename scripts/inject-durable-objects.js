@@ -25,7 +25,14 @@ async function bundleDurableObjects() {
 		target: 'es2022',
 		write: false,
 		minify: false,
-		external: ['@libsql/client/web']
+		// Photon, PDFium and libheif ship WASM modules; wrangler resolves and bundles them at deploy time
+		external: [
+			'@libsql/client/web',
+			'@cf-wasm/photon',
+			'@hyzyla/pdfium/pdfium.wasm',
+			'libheif-js/libheif-wasm/libheif.js',
+			'libheif-js/libheif-wasm/libheif.wasm'
+		]
 	});
 
 	// Bundle DashboardSessions
@@ -25,6 +25,13 @@ declare global {
 				BETTER_AUTH_GITHUB_CLIENT_SECRET?: string;
 				BETTER_AUTH_GOOGLE_CLIENT_ID?: string;
 				BETTER_AUTH_GOOGLE_CLIENT_SECRET?: string;
+				OCR_PROVIDER?: string;
+				OCR_ENDPOINT?: string;
+				OCR_API_KEY?: string;
+				OCR_ENDPOINTS?: string;
+				OCR_MAX_ATTEMPTS?: string;
+				OCR_REQUEST_TIMEOUT_MS?: string;
+				OCR_HEALTH_CHECK_INTERVAL_MS?: string;
 			};
 			context: ExecutionContext;
 			caches: CacheStorage & { default: Cache };
@@ -16,13 +16,20 @@ interface Env {
 // Message types for dashboard WebSocket
 type DashboardWSMessage =
 	| { type: 'connected'; processingCount: number }
-	| { type: 'image-update'; imageId: string; status: string; extractedText: string }
+	| {
+			type: 'image-update';
+			imageId: string;
+			status: string;
+			extractedText: string;
+			confidence: number | null;
+	  }
 	| { type: 'no-processing' };
 
 interface ImageUpdate {
 	imageId: string;
 	status: string;
 	extractedText: string;
+	confidence?: number | null;
 }
 
 export class DashboardSessions implements DurableObject {
@@ -97,7 +104,8 @@ export class DashboardSessions implements DurableObject {
 				type: 'image-update',
 				imageId: update.imageId,
 				status: update.status,
-				extractedText: update.extractedText
+				extractedText: update.extractedText,
+				confidence: update.confidence ?? null
 			};
 
 			this.broadcast(message);
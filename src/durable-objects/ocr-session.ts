@@ -8,23 +8,65 @@
  */
 
 import { createClient } from '@libsql/client/web';
-
-// OCR Configuration - keep in sync with src/lib/server/ocr/index.ts
-const OCR_MODEL = 'llama3.2-vision:latest';
-const OCR_OPTIONS = {
-	temperature: 0, // Deterministic output for accuracy
-	num_predict: 8192, // Hard cap - enough for most documents (~6k words)
-	num_ctx: 16384,
-	num_gpu: 999,
-	main_gpu: 0,
-	num_thread: 8,
-	repeat_penalty: 1.8, // Stronger penalty to stop repetition loops
-	repeat_last_n: 512, // Longer lookback to catch repetitive patterns
-	top_k: 5, // Tighter token selection for deterministic OCR
-	top_p: 0.5 // Much tighter sampling to prevent hallucinations/commentary
-};
-
-interface Env {
+import {
+	getOcrProvider,
+	type OcrOptions,
+	type OcrProvider,
+	type OcrProviderEnv
+} from '../lib/server/ocr/providers';
+import { getOcrModel, type OcrModel } from '../lib/server/config/models';
+import {
+	DEFAULT_PREPROCESS_OPTIONS,
+	preprocessImage,
+	resolvePreprocessOptions,
+	type PreprocessEnv,
+	type PreprocessOptions
+} from '../lib/server/image/preprocess';
+import { ROTATIONS, type Rotation } from '../lib/server/image/orientation';
+import { PageSelectionError, type RenderedPage } from '../lib/server/image/page-images';
+import { renderPdfPages } from '../lib/server/image/pdf-pages';
+import {
+	decodeFirstPage,
+	ImageSizeError,
+	isDecodedMimeType,
+	renderImagePages
+} from '../lib/server/image/image-pages';
+import {
+	parseScanMetadata,
+	type BackendEvent,
+	type GuardEvent,
+	type PagePreprocessing,
+	type ScanMetadata
+} from '../lib/server/ocr/metadata';
+import { joinPageTexts, type PageMethod, type PageStatus } from '../lib/server/ocr/pages';
+import { usableTextLayer } from '../lib/server/ocr/text-layer';
+import { documentConfidence, estimateConfidence } from '../lib/server/ocr/confidence';
+import { detectLanguage } from '../lib/server/ocr/language';
+import {
+	cleanupOutput,
+	isOutputFormat,
+	toPlainText,
+	type OutputFormat
+} from '../lib/server/ocr/format';
+import {
+	extractFields,
+	parseStoredSchema,
+	type ExtractedData,
+	type ExtractionResult,
+	type JsonSchema
+} from '../lib/server/ocr/extraction';
+import { isTranslationLanguage, translateText } from '../lib/server/ocr/translation';
+import { askDocument, type DocumentPage } from '../lib/server/ocr/documents';
+import { extractLayout, type PageLayout } from '../lib/server/ocr/layout';
+import { buildSearchablePdf, type PdfPageImage, type SearchablePage } from '../lib/server/ocr/pdf';
+import {
+	adjustOptionsForRetry,
+	adjustPromptForRetry,
+	createOutputGuard,
+	type GuardViolation
+} from '../lib/server/ocr/guard';
+
+interface Env extends OcrProviderEnv, PreprocessEnv {
 	DATABASE_URL: string;
 	DATABASE_AUTH_TOKEN: string;
 	R2_BUCKET: R2Bucket;
@@ -36,27 +78,162 @@ interface ProcessRequest {
 	userId: string;
 	imageKey: string;
 	prompt: string;
+	model?: string | null;
+	outputFormat?: string | null;
+	extractionSchema?: unknown; // JSON Schema of fields to extract once the text is read
+	translateTo?: string | null; // Language to translate each page into after reading it
+	layout?: boolean; // Read word and line boxes of each page
+	rotation?: number | null; // Manual rotation from "rotate and rescan"
 	isPdf?: boolean;
 	pageCount?: number;
 	pageImages?: string[] | null;
+	retryPages?: number[] | null; // Only re-read these pages, keeping the rest of the last scan
+	wait?: boolean; // Answer once the scan has finished instead of right away
+}
+
+// Retries after the output guard catches a repetition loop or commentary
+const MAX_GUARD_RETRIES = 1;
+
+// A question about the finished scan, answered over the WebSocket
+interface AskRequest {
+	askId: string;
+	question: string;
+	model?: string | null;
+	pages: DocumentPage[];
+}
+
+// A searchable PDF of the finished scan
+interface ExportPdfRequest {
+	title: string;
+	originalKey?: string | null; // Original PDF of PDF scans
+	pageRange?: string | null; // Pages of the original that were scanned
+	pages: Array<SearchablePage & { imageKey: string }>;
+}
+
+// A PDF, TIFF or HEIC/HEIF stored in R2 whose pages are rendered to page images next to it
+interface RenderPagesRequest {
+	sourceKey: string;
+	maxPages?: number;
+	pageRange?: string | null; // Only these pages, like "1-3,7,10-"
+}
+
+// Rendered pages match the page images the upload page renders with pdf.js
+const PAGE_RENDER_OPTIONS = {
+	maxDimension: DEFAULT_PREPROCESS_OPTIONS.maxDimension,
+	quality: 90
+};
+
+// Page images go into PDFs at full size and upright, without OCR corrections
+const PDF_IMAGE_OPTIONS: PreprocessOptions = {
+	maxDimension: Number.MAX_SAFE_INTEGER,
+	autoRotate: false,
+	deskew: false,
+	quality: 90
+};
+
+// Settings shared by every page of a scan
+interface ScanContext {
+	prompt: string;
+	model: OcrModel;
+	outputFormat: OutputFormat;
+	extractionSchema: JsonSchema | null;
+	translateTo: string | null;
+	layout: boolean;
+	preprocessOptions: PreprocessOptions;
+	backendEvents: BackendEvent[]; // Collects endpoint pool retries and failovers
+}
+
+// Text and processing details for a single page
+interface PageResult {
+	text: string;
+	confidence: number | null;
+	language: string | null; // Detected ISO 639-1 codes, comma-separated
+	dimensions: { width: number; height: number } | null; // Of the stored page image
+	preprocessing: Omit<PagePreprocessing, 'pageNumber'> | null;
+	guard: Omit<GuardEvent, 'pageNumber'>[];
+	layout: PageLayout | null; // When the scan asks for it and the layout pass succeeded
+	method: PageMethod;
 }
 
+// A page image ready for the model
+interface PageImage {
+	imageBase64: string;
+	mimeType: string;
+	dimensions: PageResult['dimensions'];
+	preprocessing: PageResult['preprocessing'];
+}
+
+// Fields written to a scanned_page row
+interface PageUpdate {
+	status: PageStatus;
+	text?: string | null;
+	confidence?: number | null;
+	language?: string | null;
+	translatedText?: string | null;
+	layout?: PageLayout | null;
+	method?: PageMethod | null;
+	width?: number | null;
+	height?: number | null;
+	processingTimeMs?: number | null;
+	errorMessage?: string | null;
+}
+
+// Live state of a page while the scan runs, text grows as chunks stream in
+interface PageProgress {
+	pageNumber: number;
+	status: PageStatus;
+	text: string;
+	confidence: number | null;
+	translatedText: string | null; // Set once the page is translated, when the scan asks for it
+}
+
+type SessionStatus = 'pending' | 'processing' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
 // Message types for WebSocket communication
 type WSMessage =
 	| { type: 'connected' }
-	| { type: 'status'; status: 'processing' | 'completed' | 'failed' | 'cancelled' }
-	| { type: 'chunk'; text: string }
+	| { type: 'status'; status: Exclude<SessionStatus, 'pending'> }
+	| { type: 'chunk'; pageNumber: number; text: string }
+	| { type: 'retry'; pageNumber: number; reason: GuardViolation['type']; attempt: number }
 	| { type: 'page-start'; pageNumber: number; totalPages: number }
-	| { type: 'page-complete'; pageNumber: number; totalPages: number; text: string }
-	| { type: 'complete'; text: string; processingTimeMs: number }
+	| { type: 'extracting' }
+	| {
+			type: 'page-complete';
+			pageNumber: number;
+			totalPages: number;
+			status: 'completed' | 'failed';
+			text: string;
+			confidence: number | null;
+			language: string | null;
+			translatedText: string | null;
+			layout: PageLayout | null;
+			method: PageMethod | null;
+			error?: string;
+	  }
+	| {
+			type: 'complete';
+			text: string;
+			status: 'completed' | 'partial';
+			confidence: number | null;
+			language: string | null;
+			data: ExtractedData | null; // Extracted fields, when the scan has a schema
+			extractionError: string | null;
+			translatedText: string | null; // When the scan has translateTo
+			translationError: string | null;
+			processingTimeMs: number;
+	  }
 	| { type: 'error'; message: string }
 	| { type: 'cancelled' }
-	| { type: 'reconnected'; text: string; status: string };
+	| { type: 'answer-chunk'; askId: string; text: string }
+	| { type: 'answer-complete'; askId: string; answer: string; citations: number[] }
+	| { type: 'answer-error'; askId: string; message: string }
+	| { type: 'reconnected'; text: string; status: string; pages: PageProgress[] };
 
 export class OCRSession implements DurableObject {
 	private state: DurableObjectState;
 	private env: Env;
 	private db: ReturnType<typeof createClient> | null = null;
+	private provider: OcrProvider | null = null;
 
 	// Session state
 	private imageId: string | null = null;
@@ -64,7 +241,8 @@ export class OCRSession implements DurableObject {
 	private isProcessing = false;
 	private isCancelled = false;
 	private extractedText = '';
-	private status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' = 'pending';
+	private pages: PageProgress[] = [];
+	private status: SessionStatus = 'pending';
 	private processingTimeMs = 0;
 	private abortController: AbortController | null = null;
 
@@ -83,6 +261,13 @@ export class OCRSession implements DurableObject {
 		return this.db;
 	}
 
+	private getProvider() {
+		if (!this.provider) {
+			this.provider = getOcrProvider(this.env);
+		}
+		return this.provider;
+	}
+
 	async fetch(request: Request): Promise<Response> {
 		const url = new URL(request.url);
 
@@ -98,6 +283,18 @@ export class OCRSession implements DurableObject {
 			return this.handleCancel(request);
 		}
 
+		if (url.pathname === '/ask') {
+			return this.handleAsk(request);
+		}
+
+		if (url.pathname === '/export-pdf') {
+			return this.handleExportPdf(request);
+		}
+
+		if (url.pathname === '/render-pages') {
+			return this.handleRenderPages(request);
+		}
+
 		if (url.pathname === '/reset') {
 			return this.handleReset();
 		}
@@ -125,11 +322,15 @@ export class OCRSession implements DurableObject {
 		// Send initial state if reconnecting to an active session
 		if (this.imageId) {
 			const message: WSMessage =
-				this.status === 'processing'
-					? { type: 'reconnected', text: this.extractedText, status: 'processing' }
-					: this.status === 'completed'
-						? { type: 'reconnected', text: this.extractedText, status: 'completed' }
-						: { type: 'connected' };
+				this.status === 'processing' || this.status === 'completed' || this.status === 'partial'
+					? {
+							type: 'reconnected',
+							// Includes the partial text of pages still being read
+							text: joinPageTexts(this.pages.map((page) => page.text)),
+							status: this.status,
+							pages: this.pages
+						}
+					: { type: 'connected' };
 			server.send(JSON.stringify(message));
 		} else {
 			server.send(JSON.stringify({ type: 'connected' } as WSMessage));
@@ -159,8 +360,17 @@ export class OCRSession implements DurableObject {
 			this.isCancelled = false;
 			this.status = 'processing';
 			this.extractedText = '';
+			this.pages = [];
 			this.abortController = new AbortController();
 
+			// API callers wait for the result, processOCR records failures itself
+			if (body.wait) {
+				await this.processOCR(body);
+				return new Response(JSON.stringify({ success: true, status: this.status }), {
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+
 			// Start processing in the background
 			// Use waitUntil to ensure the DO stays alive
 			this.state.waitUntil(this.processOCR(body));
@@ -202,6 +412,11 @@ export class OCRSession implements DurableObject {
 				sql: 'UPDATE scanned_image SET status = ?, extracted_text = ?, updated_at = ? WHERE id = ?',
 				args: ['cancelled', this.extractedText.trim() || null, Date.now(), this.imageId]
 			});
+			// Pages that were being read are left to the next scan
+			await db.execute({
+				sql: "UPDATE scanned_page SET status = 'pending', updated_at = ? WHERE image_id = ? AND status = 'processing'",
+				args: [Date.now(), this.imageId]
+			});
 
 			// Broadcast cancellation
 			this.broadcast({ type: 'cancelled' });
@@ -222,11 +437,212 @@ export class OCRSession implements DurableObject {
 		}
 	}
 
+	private async handleAsk(request: Request): Promise<Response> {
+		try {
+			const body = (await request.json()) as AskRequest;
+
+			// Answered in the background, the caller listens on the WebSocket
+			this.state.waitUntil(this.answerQuestion(body));
+
+			return new Response(JSON.stringify({ success: true, askId: body.askId }), {
+				status: 202,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		} catch (error) {
+			console.error('[OCRSession] handleAsk error:', error);
+			return new Response(JSON.stringify({ error: 'Invalid request body' }), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	/**
+	 * Stream the answer to a question about the scan's text to connected clients
+	 */
+	private async answerQuestion(job: AskRequest): Promise<void> {
+		try {
+			const result = await askDocument(
+				this.getProvider(),
+				getOcrModel(job.model),
+				job.pages,
+				job.question,
+				{ onChunk: (text) => this.broadcast({ type: 'answer-chunk', askId: job.askId, text }) }
+			);
+
+			this.broadcast({ type: 'answer-complete', askId: job.askId, ...result });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			console.error('[OCRSession] Question failed:', message);
+			this.broadcast({ type: 'answer-error', askId: job.askId, message });
+		}
+	}
+
+	private async handleExportPdf(request: Request): Promise<Response> {
+		let body: ExportPdfRequest;
+		try {
+			body = (await request.json()) as ExportPdfRequest;
+		} catch {
+			return new Response(JSON.stringify({ error: 'Invalid request body' }), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+
+		try {
+			const original = body.originalKey ? await this.env.R2_BUCKET.get(body.originalKey) : null;
+			const pdf = await buildSearchablePdf(body.pages, {
+				title: body.title,
+				original: original ? new Uint8Array(await original.arrayBuffer()) : null,
+				pageRange: body.pageRange,
+				loadImage: (page) => this.loadImageForPdf(page.imageKey)
+			});
+
+			return new Response(pdf, { headers: { 'Content-Type': 'application/pdf' } });
+		} catch (error) {
+			console.error('[OCRSession] PDF export failed:', error);
+			return new Response(JSON.stringify({ error: 'Failed to build the PDF' }), {
+				status: 500,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+	}
+
+	/**
+	 * Render the pages of a stored PDF, or the frames of a stored TIFF or HEIC/HEIF image, to
+	 * JPEG page images in R2, named like the ones the upload page stores, and read the text
+	 * layers of PDF pages
+	 */
+	private async handleRenderPages(request: Request): Promise<Response> {
+		let body: RenderPagesRequest;
+		try {
+			body = (await request.json()) as RenderPagesRequest;
+		} catch {
+			return new Response(JSON.stringify({ error: 'Invalid request body' }), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+
+		const object = await this.env.R2_BUCKET.get(body.sourceKey);
+		if (!object) {
+			return new Response(JSON.stringify({ error: 'File not found' }), {
+				status: 404,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+
+		const mimeType = object.httpMetadata?.contentType || '';
+		const isPdf = mimeType === 'application/pdf';
+		if (!isPdf && !isDecodedMimeType(mimeType)) {
+			return new Response(JSON.stringify({ error: 'Only PDF, TIFF and HEIC files have pages' }), {
+				status: 415,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+
+		const baseKey = body.sourceKey.replace(/\.[^/.]+$/, '');
+		const pages: Array<{
+			pageNumber: number;
+			imageKey: string;
+			width: number;
+			height: number;
+			text: string | null; // Usable text layer
+		}> = [];
+		// Page images this call added, rescans replace the ones of the current scan
+		const addedKeys: string[] = [];
+
+		try {
+			const bytes = new Uint8Array(await object.arrayBuffer());
+			const options = {
+				...PAGE_RENDER_OPTIONS,
+				maxPages: body.maxPages,
+				pageRange: body.pageRange
+			};
+			const rendered: AsyncGenerator<RenderedPage> = isPdf
+				? renderPdfPages(bytes, options)
+				: renderImagePages(bytes, mimeType, options);
+
+			for await (const page of rendered) {
+				const imageKey = `${baseKey}_page${page.pageNumber}.jpg`;
+				if (!(await this.env.R2_BUCKET.head(imageKey))) {
+					addedKeys.push(imageKey);
+				}
+				await this.env.R2_BUCKET.put(imageKey, page.bytes, {
+					httpMetadata: { contentType: 'image/jpeg' }
+				});
+				pages.push({
+					pageNumber: page.pageNumber,
+					imageKey,
+					width: page.width,
+					height: page.height,
+					text: usableTextLayer(page.text)
+				});
+			}
+		} catch (error) {
+			// Pages added before the failure are not referenced by any scan
+			if (addedKeys.length > 0) {
+				await this.env.R2_BUCKET.delete(addedKeys);
+			}
+
+			if (error instanceof PageSelectionError) {
+				return new Response(JSON.stringify({ error: error.message, pageCount: error.pageCount }), {
+					status: 400,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+			if (error instanceof ImageSizeError) {
+				return new Response(JSON.stringify({ error: error.message }), {
+					status: 422,
+					headers: { 'Content-Type': 'application/json' }
+				});
+			}
+
+			console.error('[OCRSession] Page rendering failed:', error);
+			const message = isPdf ? 'The PDF could not be read' : 'The image could not be read';
+			return new Response(JSON.stringify({ error: message }), {
+				status: 422,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+
+		return new Response(JSON.stringify({ pageCount: pages.length, pages }), {
+			headers: { 'Content-Type': 'application/json' }
+		});
+	}
+
+	/**
+	 * A stored page image as JPEG or PNG with EXIF orientation applied, for PDF pages
+	 */
+	private async loadImageForPdf(imageKey: string): Promise<PdfPageImage> {
+		const object = await this.env.R2_BUCKET.get(imageKey);
+		if (!object) {
+			throw new Error('Image not found in R2: ' + imageKey);
+		}
+
+		let bytes = new Uint8Array(await object.arrayBuffer());
+		let mimeType = object.httpMetadata?.contentType || 'image/jpeg';
+		if (isDecodedMimeType(mimeType)) {
+			bytes = await decodeFirstPage(bytes, mimeType, PDF_IMAGE_OPTIONS.maxDimension);
+			mimeType = 'image/jpeg';
+		}
+
+		const result = preprocessImage(bytes, mimeType, PDF_IMAGE_OPTIONS);
+
+		return {
+			bytes: result.bytes,
+			mimeType: result.mimeType,
+			width: result.width,
+			height: result.height
+		};
+	}
+
 	private async handleReset(): Promise<Response> {
 		// Reset session state for a new processing attempt
 		this.isProcessing = false;
 		this.isCancelled = false;
 		this.extractedText = '';
+		this.pages = [];
 		this.status = 'pending';
 		this.processingTimeMs = 0;
 		this.abortController = null;
@@ -261,7 +677,13 @@ export class OCRSession implements DurableObject {
 		}
 	}
 
-	private async notifyDashboard(userId: string, imageId: string, status: string, text: string) {
+	private async notifyDashboard(
+		userId: string,
+		imageId: string,
+		status: string,
+		text: string,
+		confidence: number | null = null
+	) {
 		try {
 			const dashboardId = this.env.DASHBOARD_SESSIONS.idFromName(userId);
 			const dashboardStub = this.env.DASHBOARD_SESSIONS.get(dashboardId);
@@ -270,7 +692,7 @@ export class OCRSession implements DurableObject {
 				new Request('https://do/image-update', {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({ imageId, status, extractedText: text })
+					body: JSON.stringify({ imageId, status, extractedText: text, confidence })
 				})
 			);
 		} catch (error) {
@@ -278,13 +700,154 @@ export class OCRSession implements DurableObject {
 		}
 	}
 
+	/**
+	 * Merge fields into the scan's metadata JSON
+	 */
+	private async updateMetadata(imageId: string, patch: Partial<ScanMetadata>) {
+		try {
+			const db = this.getDb();
+			const result = await db.execute({
+				sql: 'SELECT metadata FROM scanned_image WHERE id = ?',
+				args: [imageId]
+			});
+			const metadata: ScanMetadata = { ...parseScanMetadata(result.rows[0]?.metadata), ...patch };
+
+			await db.execute({
+				sql: 'UPDATE scanned_image SET metadata = ? WHERE id = ?',
+				args: [JSON.stringify(metadata), imageId]
+			});
+		} catch (error) {
+			console.error('[OCRSession] Failed to update metadata:', error);
+		}
+	}
+
+	/**
+	 * Insert or update the scanned_page row for a page
+	 */
+	private async savePage(
+		imageId: string,
+		pageNumber: number,
+		imageKey: string,
+		update: PageUpdate
+	): Promise<void> {
+		try {
+			const now = Date.now();
+			await this.getDb().execute({
+				sql: `INSERT INTO scanned_page (id, image_id, page_number, image_key, width, height, text, confidence, language, translated_text, layout, method, status, processing_time_ms, error_message, created_at, updated_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+					ON CONFLICT (image_id, page_number) DO UPDATE SET
+						image_key = excluded.image_key,
+						width = coalesce(excluded.width, width),
+						height = coalesce(excluded.height, height),
+						text = excluded.text,
+						confidence = excluded.confidence,
+						language = excluded.language,
+						translated_text = excluded.translated_text,
+						layout = excluded.layout,
+						method = excluded.method,
+						status = excluded.status,
+						processing_time_ms = excluded.processing_time_ms,
+						error_message = excluded.error_message,
+						updated_at = excluded.updated_at`,
+				args: [
+					crypto.randomUUID(),
+					imageId,
+					pageNumber,
+					imageKey,
+					update.width ?? null,
+					update.height ?? null,
+					update.text ?? null,
+					update.confidence ?? null,
+					update.language ?? null,
+					update.translatedText ?? null,
+					update.layout ? JSON.stringify(update.layout) : null,
+					update.method ?? null,
+					update.status,
+					update.processingTimeMs ?? null,
+					update.errorMessage ?? null,
+					now,
+					now
+				]
+			});
+		} catch (error) {
+			console.error(`[OCRSession] Failed to save page ${pageNumber}:`, error);
+		}
+	}
+
+	/**
+	 * Page rows, metadata and processing time of the last scan, used when retrying failed pages
+	 */
+	private async loadPreviousScan(imageId: string) {
+		const db = this.getDb();
+		const [image, pages] = await Promise.all([
+			db.execute({
+				sql: 'SELECT metadata, processing_time_ms FROM scanned_image WHERE id = ?',
+				args: [imageId]
+			}),
+			db.execute({
+				sql: 'SELECT page_number, text, confidence, translated_text, status FROM scanned_page WHERE image_id = ?',
+				args: [imageId]
+			})
+		]);
+
+		return {
+			pages: pages.rows.map((row) => ({
+				pageNumber: Number(row.page_number),
+				text: (row.text as string | null) ?? '',
+				confidence: row.confidence === null ? null : Number(row.confidence),
+				translatedText: (row.translated_text as string | null) ?? null,
+				status: row.status as PageStatus
+			})),
+			metadata: parseScanMetadata(image.rows[0]?.metadata),
+			processingTimeMs: Number(image.rows[0]?.processing_time_ms ?? 0)
+		};
+	}
+
+	/**
+	 * Text layers of the born-digital pages of a PDF scan, by page number
+	 */
+	private async loadEmbeddedTexts(imageId: string): Promise<Map<number, string>> {
+		const result = await this.getDb().execute({
+			sql: 'SELECT page_number, embedded_text FROM scanned_page WHERE image_id = ? AND embedded_text IS NOT NULL',
+			args: [imageId]
+		});
+
+		return new Map(result.rows.map((row) => [Number(row.page_number), String(row.embedded_text)]));
+	}
+
 	private async processOCR(job: ProcessRequest): Promise<void> {
 		const startTime = Date.now();
 		const db = this.getDb();
-		const PAGE_DELIMITER = '\n\n---PAGE_BREAK---\n\n';
 		const PARALLEL_BATCH_SIZE = 4; // Process 4 pages in parallel on A5000
 
-		console.log('[OCRSession] Starting OCR for image:', job.imageId, 'isPdf:', job.isPdf);
+		const model = getOcrModel(job.model);
+		const scan: ScanContext = {
+			prompt: job.prompt,
+			model,
+			outputFormat: isOutputFormat(job.outputFormat) ? job.outputFormat : 'text',
+			extractionSchema: parseStoredSchema(job.extractionSchema),
+			translateTo:
+				job.translateTo && isTranslationLanguage(job.translateTo) ? job.translateTo : null,
+			layout: job.layout === true,
+			preprocessOptions: {
+				...resolvePreprocessOptions(this.env),
+				rotation: ROTATIONS.includes(job.rotation as Rotation)
+					? (job.rotation as Rotation)
+					: undefined
+			},
+			backendEvents: []
+		};
+		// Processing time of earlier runs, carried over when retrying failed pages
+		let previousTimeMs = 0;
+
+		console.log(
+			'[OCRSession] Starting OCR for image:',
+			job.imageId,
+			'isPdf:',
+			job.isPdf,
+			'model:',
+			model.id
+		);
 
 		try {
 			// Check if cancelled before starting
@@ -304,8 +867,8 @@ export class OCRSession implements DurableObject {
 
 			// Determine which images to process
 			const imagesToProcess: string[] = [];
-			if (job.isPdf && job.pageImages && job.pageImages.length > 0) {
-				// For PDFs, process each page image
+			if (job.pageImages && job.pageImages.length > 0) {
+				// For PDFs and multi-image documents, process each page image
 				imagesToProcess.push(...job.pageImages);
 			} else {
 				// For regular images, process the single image
@@ -313,65 +876,211 @@ export class OCRSession implements DurableObject {
 			}
 
 			const totalPages = imagesToProcess.length;
-			const pageTexts: string[] = new Array(totalPages).fill('');
-
-			// Process pages in parallel batches for PDFs, sequentially for single images
-			if (totalPages > 1) {
-				// Parallel processing for multi-page PDFs
-				for (let batchStart = 0; batchStart < totalPages; batchStart += PARALLEL_BATCH_SIZE) {
-					// Check for cancellation before each batch
-					if (this.isCancelled) {
-						console.log(
-							'[OCRSession] Processing cancelled before batch starting at page',
-							batchStart + 1
-						);
-						return;
+			const pagePreprocessing: (PagePreprocessing | null)[] = new Array(totalPages).fill(null);
+			const guardEvents: GuardEvent[] = [];
+			const pageErrors: string[] = []; // Failures on this run, in the order they happened
+			const translationErrors: string[] = [];
+
+			// Text and status of every page, shared with reconnecting clients
+			this.pages = imagesToProcess.map((_, index) => ({
+				pageNumber: index + 1,
+				status: 'pending',
+				text: '',
+				confidence: null,
+				translatedText: null
+			}));
+
+			// Indices of the pages to read on this run
+			let pageIndices = imagesToProcess.map((_, index) => index);
+
+			const retryPages = (job.retryPages ?? []).filter(
+				(pageNumber) => Number.isInteger(pageNumber) && pageNumber >= 1 && pageNumber <= totalPages
+			);
+			if (retryPages.length > 0) {
+				// Keep the text and details of every page that is not retried
+				const previous = await this.loadPreviousScan(job.imageId);
+				const isKept = (pageNumber: number) => !retryPages.includes(pageNumber);
+
+				for (const page of previous.pages) {
+					if (page.pageNumber <= totalPages && isKept(page.pageNumber)) {
+						this.pages[page.pageNumber - 1] = page;
 					}
-
-					const batchEnd = Math.min(batchStart + PARALLEL_BATCH_SIZE, totalPages);
-					const batchIndices = [];
-					for (let i = batchStart; i < batchEnd; i++) {
-						batchIndices.push(i);
+				}
+				for (const preprocessing of previous.metadata.preprocessing ?? []) {
+					if (isKept(preprocessing.pageNumber)) {
+						pagePreprocessing[preprocessing.pageNumber - 1] = preprocessing;
 					}
+				}
+				guardEvents.push(...(previous.metadata.guard ?? []).filter((e) => isKept(e.pageNumber)));
+				scan.backendEvents.push(
+					...(previous.metadata.backend ?? []).filter((e) => isKept(e.pageNumber))
+				);
 
-					console.log(
-						`[OCRSession] Processing batch: pages ${batchStart + 1}-${batchEnd} of ${totalPages}`
-					);
+				pageIndices = retryPages.map((pageNumber) => pageNumber - 1);
+				previousTimeMs = previous.processingTimeMs;
+				this.extractedText = joinPageTexts(this.pages.map((page) => page.text));
+				console.log('[OCRSession] Retrying pages:', retryPages.join(', '));
+			} else {
+				// Pages left over from a longer document under the same id
+				await db.execute({
+					sql: 'DELETE FROM scanned_page WHERE image_id = ? AND page_number > ?',
+					args: [job.imageId, totalPages]
+				});
+			}
 
-					// Broadcast batch start
-					this.broadcast({ type: 'page-start', pageNumber: batchStart + 1, totalPages });
+			// Pages read on this run start from scratch
+			await Promise.all(
+				pageIndices.map((pageIndex) =>
+					this.savePage(job.imageId, pageIndex + 1, imagesToProcess[pageIndex], {
+						status: 'pending'
+					})
+				)
+			);
 
-					// Process batch in parallel
-					const batchPromises = batchIndices.map(async (pageIndex) => {
-						const imageKey = imagesToProcess[pageIndex];
-						const pageNumber = pageIndex + 1;
-						console.log(`[OCRSession] Processing page ${pageNumber}/${totalPages}: ${imageKey}`);
+			// Born-digital PDF pages whose text is taken from their text layer
+			const embeddedTexts = job.isPdf
+				? await this.loadEmbeddedTexts(job.imageId)
+				: new Map<number, string>();
+
+			// Read one page, recording a failure on the page instead of failing the document
+			const runPage = async (pageIndex: number) => {
+				const imageKey = imagesToProcess[pageIndex];
+				const pageNumber = pageIndex + 1;
+				console.log(`[OCRSession] Processing page ${pageNumber}/${totalPages}: ${imageKey}`);
+
+				const pageStartTime = Date.now();
+				this.pages[pageIndex] = {
+					pageNumber,
+					status: 'processing',
+					text: '',
+					confidence: null,
+					translatedText: null
+				};
+				await this.savePage(job.imageId, pageNumber, imageKey, { status: 'processing' });
+				this.broadcast({ type: 'page-start', pageNumber, totalPages });
+
+				try {
+					const result = await this.processPage(
+						imageKey,
+						pageNumber,
+						scan,
+						embeddedTexts.get(pageNumber) ?? null
+					);
 
-						const pageText = await this.processPageNonStreaming(imageKey, job.prompt);
-						return { pageIndex, pageText };
+					pagePreprocessing[pageIndex] = result.preprocessing
+						? { pageNumber, ...result.preprocessing }
+						: null;
+					guardEvents.push(...result.guard.map((e) => ({ pageNumber, ...e })));
+
+					// Second pass over the page's text, a failure keeps the original
+					let translatedText: string | null = null;
+					if (scan.translateTo) {
+						const translation = await translateText(this.getProvider(), model, result.text, {
+							targetLanguage: scan.translateTo,
+							outputFormat: scan.outputFormat,
+							language: result.language,
+							signal: this.abortController?.signal
+						});
+						if (this.isCancelled) return;
+						translatedText = translation.text;
+						if (translation.error) {
+							console.error(
+								`[OCRSession] Page ${pageNumber} translation failed:`,
+								translation.error
+							);
+							translationErrors.push(translation.error);
+						}
+					}
+
+					this.pages[pageIndex] = {
+						pageNumber,
+						status: 'completed',
+						text: result.text,
+						confidence: result.confidence,
+						translatedText
+					};
+
+					await this.savePage(job.imageId, pageNumber, imageKey, {
+						status: 'completed',
+						text: result.text,
+						confidence: result.confidence,
+						language: result.language,
+						translatedText,
+						layout: result.layout,
+						method: result.method,
+						width: result.dimensions?.width,
+						height: result.dimensions?.height,
+						processingTimeMs: Date.now() - pageStartTime
 					});
 
-					const batchResults = await Promise.all(batchPromises);
+					this.broadcast({
+						type: 'page-complete',
+						pageNumber,
+						totalPages,
+						status: 'completed',
+						text: result.text,
+						confidence: result.confidence,
+						language: result.language,
+						translatedText,
+						layout: result.layout,
+						method: result.method
+					});
+				} catch (error) {
+					// Cancellation is handled by the caller, not recorded as a page failure
+					if (this.isCancelled) return;
+
+					const message = error instanceof Error ? error.message : 'Unknown error';
+					console.error(`[OCRSession] Page ${pageNumber} failed:`, message);
+
+					this.pages[pageIndex] = {
+						pageNumber,
+						status: 'failed',
+						text: '',
+						confidence: null,
+						translatedText: null
+					};
+					pageErrors.push(message);
+
+					await this.savePage(job.imageId, pageNumber, imageKey, {
+						status: 'failed',
+						processingTimeMs: Date.now() - pageStartTime,
+						errorMessage: message.substring(0, 1000)
+					});
 
-					// Store results in order and broadcast completions
-					for (const { pageIndex, pageText } of batchResults) {
-						pageTexts[pageIndex] = pageText;
-						this.broadcast({
-							type: 'page-complete',
-							pageNumber: pageIndex + 1,
-							totalPages,
-							text: pageText
-						});
-					}
+					this.broadcast({
+						type: 'page-complete',
+						pageNumber,
+						totalPages,
+						status: 'failed',
+						text: '',
+						confidence: null,
+						language: null,
+						translatedText: null,
+						layout: null,
+						method: null,
+						error: message
+					});
+				}
+			};
 
-					// Update extractedText with all text so far
-					this.extractedText = pageTexts.filter((t) => t).join(PAGE_DELIMITER);
+			// Pages are read in parallel batches, each streaming its text as it comes in
+			for (let batchStart = 0; batchStart < pageIndices.length; batchStart += PARALLEL_BATCH_SIZE) {
+				// Check for cancellation before each batch
+				if (this.isCancelled) {
+					console.log('[OCRSession] Processing cancelled before page', pageIndices[batchStart] + 1);
+					return;
 				}
-			} else {
-				// Single image - use streaming for real-time feedback
-				const pageText = await this.processPage(imagesToProcess[0], job.prompt);
-				pageTexts[0] = pageText;
-				this.extractedText = pageText;
+
+				const batch = pageIndices.slice(batchStart, batchStart + PARALLEL_BATCH_SIZE);
+				console.log(
+					`[OCRSession] Processing batch: pages ${batch.map((i) => i + 1).join(', ')} of ${totalPages}`
+				);
+
+				// A failed page does not stop the rest of the batch
+				await Promise.all(batch.map(runPage));
+
+				// Text of finished pages, saved by a cancel
+				this.extractedText = joinPageTexts(this.pages.map((page) => page.text));
 			}
 
 			// If cancelled during processing, don't complete
@@ -380,26 +1089,91 @@ export class OCRSession implements DurableObject {
 				return;
 			}
 
-			// Complete successfully
-			this.processingTimeMs = Date.now() - startTime;
-			this.status = 'completed';
+			const failedCount = this.pages.filter((page) => page.status === 'failed').length;
+
+			// Nothing was read - fail the document with the first page error
+			if (failedCount === totalPages) {
+				throw new Error(pageErrors[0] || 'Every page failed');
+			}
+
+			// Complete, possibly with some pages failed
+			const status = failedCount > 0 ? 'partial' : 'completed';
+			const errorMessage = failedCount > 0 ? `${failedCount} of ${totalPages} pages failed` : null;
+
+			// Document text for search and previews, page texts are in scanned_page
+			const finalText = joinPageTexts(this.pages.map((page) => page.text));
+			const translatedText = scan.translateTo
+				? joinPageTexts(this.pages.map((page) => page.translatedText ?? ''))
+				: null;
+			const translationError = translationErrors[0] ?? null;
+
+			// Fields requested with the scan, read from the document text.
+			// A failed extraction is recorded but keeps the text
+			let extraction: ExtractionResult | null = null;
+			if (scan.extractionSchema) {
+				this.broadcast({ type: 'extracting' });
+				extraction = await extractFields(
+					this.getProvider(),
+					model,
+					finalText,
+					scan.extractionSchema,
+					this.abortController?.signal
+				);
+				if (this.isCancelled) return;
+				console.log(
+					'[OCRSession] Extraction',
+					extraction.data ? 'succeeded' : `failed: ${extraction.error}`,
+					'after',
+					extraction.attempts,
+					'attempt(s)'
+				);
+			}
+
+			this.processingTimeMs = previousTimeMs + Date.now() - startTime;
+			this.status = status;
 			this.isProcessing = false;
 
-			// Final text is all pages joined with delimiter
-			const finalText = pageTexts.join(PAGE_DELIMITER);
+			const confidence = documentConfidence(this.pages);
+			const language = detectLanguage(toPlainText(finalText, scan.outputFormat));
+
+			// Record the orientation fixes, output guard trips and backend retries for each page
+			await this.updateMetadata(job.imageId, {
+				preprocessing: pagePreprocessing.filter((p): p is PagePreprocessing => p !== null),
+				guard: guardEvents,
+				backend: scan.backendEvents
+			});
 
 			// Save to database
 			await db.execute({
-				sql: 'UPDATE scanned_image SET status = ?, extracted_text = ?, processing_time_ms = ?, updated_at = ? WHERE id = ?',
-				args: ['completed', finalText, this.processingTimeMs, Date.now(), job.imageId]
+				sql: 'UPDATE scanned_image SET status = ?, extracted_text = ?, confidence = ?, language = ?, extracted_data = ?, extraction_error = ?, translated_text = ?, translation_error = ?, error_message = ?, processing_time_ms = ?, updated_at = ? WHERE id = ?',
+				args: [
+					status,
+					finalText,
+					confidence,
+					language,
+					extraction?.data ? JSON.stringify(extraction.data) : null,
+					extraction?.error ?? null,
+					translatedText,
+					translationError,
+					errorMessage,
+					this.processingTimeMs,
+					Date.now(),
+					job.imageId
+				]
 			});
 
 			console.log(
 				'[OCRSession] Completed.',
 				'Pages:',
 				totalPages,
+				'Failed:',
+				failedCount,
 				'Text length:',
 				finalText.length,
+				'Confidence:',
+				confidence,
+				'Language:',
+				language,
 				'Time:',
 				this.processingTimeMs,
 				'ms'
@@ -409,23 +1183,43 @@ export class OCRSession implements DurableObject {
 			this.broadcast({
 				type: 'complete',
 				text: finalText,
+				status,
+				confidence,
+				language,
+				data: extraction?.data ?? null,
+				extractionError: extraction?.error ?? null,
+				translatedText,
+				translationError,
 				processingTimeMs: this.processingTimeMs
 			});
 
 			// Notify dashboard
-			await this.notifyDashboard(job.userId, job.imageId, 'completed', finalText);
+			await this.notifyDashboard(job.userId, job.imageId, status, finalText, confidence);
 		} catch (error) {
-			this.processingTimeMs = Date.now() - startTime;
+			this.processingTimeMs = previousTimeMs + Date.now() - startTime;
 			this.status = 'failed';
 			this.isProcessing = false;
 
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 			console.error('[OCRSession] OCR failed:', errorMessage);
 
+			// Keep the retry and failover trail that led to the failure
+			await this.updateMetadata(job.imageId, { backend: scan.backendEvents });
+
+			// Every unfinished page failed with the document, so it can be retried
+			try {
+				await db.execute({
+					sql: "UPDATE scanned_page SET status = 'failed', error_message = ?, updated_at = ? WHERE image_id = ? AND status IN ('pending', 'processing')",
+					args: [errorMessage.substring(0, 1000), Date.now(), job.imageId]
+				});
+			} catch (dbError) {
+				console.error('[OCRSession] Failed to update pages with error:', dbError);
+			}
+
 			// Save error to database
 			try {
 				await db.execute({
-					sql: 'UPDATE scanned_image SET status = ?, error_message = ?, processing_time_ms = ?, updated_at = ? WHERE id = ?',
+					sql: 'UPDATE scanned_image SET status = ?, confidence = NULL, language = NULL, extracted_data = NULL, extraction_error = NULL, translated_text = NULL, translation_error = NULL, error_message = ?, processing_time_ms = ?, updated_at = ? WHERE id = ?',
 					args: [
 						'failed',
 						errorMessage.substring(0, 1000),
@@ -447,248 +1241,291 @@ export class OCRSession implements DurableObject {
 	}
 
 	/**
-	 * Process a single page/image and return the extracted text
+	 * Fetch an image from R2, run it through the preprocessing pipeline and
+	 * return it as base64 ready for the OCR provider
 	 */
-	private async processPage(imageKey: string, prompt: string): Promise<string> {
-		// Get image from R2
+	private async loadImageForOcr(imageKey: string, options: PreprocessOptions): Promise<PageImage> {
 		console.log('[OCRSession] Fetching image from R2:', imageKey);
 		const object = await this.env.R2_BUCKET.get(imageKey);
 		if (!object) {
 			throw new Error('Image not found in R2: ' + imageKey);
 		}
 
-		// Get image bytes and check if resizing is needed
 		let imageBytes = new Uint8Array(await object.arrayBuffer());
-		const contentType = object.httpMetadata?.contentType || 'image/jpeg';
+		let mimeType = object.httpMetadata?.contentType || 'image/jpeg';
+		let dimensions: PageResult['dimensions'] = null;
+		let preprocessing: PageResult['preprocessing'] = null;
 
-		// Check image dimensions from custom metadata (stored during upload)
-		const originalWidth = parseInt(object.customMetadata?.width || '0', 10);
-		const originalHeight = parseInt(object.customMetadata?.height || '0', 10);
-		const MAX_DIMENSION = 1024;
+		// Downscale, straighten and normalize before the image reaches the model
+		try {
+			// Scans of TIFF and HEIC/HEIF images stored without page images
+			if (isDecodedMimeType(mimeType)) {
+				imageBytes = await decodeFirstPage(imageBytes, mimeType, options.maxDimension);
+				mimeType = 'image/jpeg';
+			}
 
-		// If image is too large, resize it
-		if (originalWidth > MAX_DIMENSION || originalHeight > MAX_DIMENSION) {
-			console.log(`[OCRSession] Image too large (${originalWidth}x${originalHeight}), resizing...`);
-			try {
-				imageBytes = await this.resizeImage(
-					imageBytes,
-					contentType,
-					originalWidth,
-					originalHeight,
-					MAX_DIMENSION
+			const result = preprocessImage(imageBytes, mimeType, options);
+			if (result.transformed) {
+				console.log(
+					`[OCRSession] Image preprocessed: ${result.originalWidth}x${result.originalHeight} -> ${result.width}x${result.height}, ${imageBytes.length} -> ${result.bytes.length} bytes`,
+					result.corrections
 				);
-				console.log(`[OCRSession] Image resized, new size: ${imageBytes.length} bytes`);
-			} catch (resizeError) {
-				console.warn('[OCRSession] Failed to resize image, using original:', resizeError);
-			}
-		} else if (imageBytes.length > 5 * 1024 * 1024) {
-			// If no dimensions but file is > 5MB, try to resize anyway
-			console.log(
-				`[OCRSession] Image file large (${imageBytes.length} bytes), attempting resize...`
-			);
-			try {
-				imageBytes = await this.resizeImage(imageBytes, contentType, 0, 0, MAX_DIMENSION);
-				console.log(`[OCRSession] Image resized, new size: ${imageBytes.length} bytes`);
-			} catch (resizeError) {
-				console.warn('[OCRSession] Failed to resize image, using original:', resizeError);
 			}
+			imageBytes = result.bytes;
+			mimeType = result.mimeType;
+			dimensions = { width: result.originalWidth, height: result.originalHeight };
+			preprocessing = { ...result.corrections, width: result.width, height: result.height };
+		} catch (preprocessError) {
+			console.warn('[OCRSession] Failed to preprocess image, using original:', preprocessError);
 		}
 
 		// Convert to base64 using optimized approach
-		const bytes = imageBytes;
 		const chunkSize = 32768;
 		let binary = '';
-		for (let i = 0; i < bytes.length; i += chunkSize) {
-			const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
+		for (let i = 0; i < imageBytes.length; i += chunkSize) {
+			const chunk = imageBytes.subarray(i, Math.min(i + chunkSize, imageBytes.length));
 			binary += String.fromCharCode(...chunk);
 		}
 		const imageBase64 = btoa(binary);
 
 		console.log('[OCRSession] Image converted to base64, length:', imageBase64.length);
 
-		// Check if cancelled
-		if (this.isCancelled) {
-			throw new Error('Processing cancelled');
-		}
-
-		// Call Ollama with streaming - using llama3.2-vision for OCR
-		const OLLAMA_ENDPOINT = 'https://ollama.itsocr.com';
-		const timeoutId = setTimeout(() => this.abortController?.abort(), 300000); // 5 min timeout
-
-		let response: Response;
-		try {
-			response = await fetch(OLLAMA_ENDPOINT + '/api/generate', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({
-					model: OCR_MODEL,
-					prompt: prompt,
-					images: [imageBase64],
-					stream: true,
-					options: OCR_OPTIONS,
-					keep_alive: '30m'
-				}),
-				signal: this.abortController?.signal
-			});
-		} finally {
-			clearTimeout(timeoutId);
-		}
-
-		if (!response.ok) {
-			const errorText = await response.text();
-			throw new Error('Ollama API error: ' + response.status + ' - ' + errorText);
-		}
+		return { imageBase64, mimeType, dimensions, preprocessing };
+	}
 
-		// Stream the response
-		const reader = response.body?.getReader();
-		if (!reader) {
-			throw new Error('No response body from Ollama');
+	/**
+	 * Update the live text of a page while it streams in
+	 */
+	private updatePageText(pageNumber: number, update: (text: string) => string) {
+		const page = this.pages[pageNumber - 1];
+		if (page) {
+			page.text = update(page.text);
 		}
+	}
 
-		const decoder = new TextDecoder();
-		let buffer = '';
-		let pageText = '';
-
-		try {
-			while (true) {
-				// Check for cancellation during streaming
-				if (this.isCancelled) {
-					console.log('[OCRSession] Processing cancelled during streaming');
-					throw new Error('Processing cancelled');
-				}
-
-				const { done, value } = await reader.read();
-				if (done) break;
-
-				buffer += decoder.decode(value, { stream: true });
-				const lines = buffer.split('\n');
-				buffer = lines.pop() || '';
+	/**
+	 * Run OCR attempts until the output guard is satisfied or retries run out.
+	 * Each attempt returns its text and the first guard violation, if any.
+	 */
+	private async runGuarded(
+		prompt: string,
+		model: OcrModel,
+		pageNumber: number,
+		attempt: (
+			prompt: string,
+			options: OcrOptions,
+			isLastAttempt: boolean
+		) => Promise<{ text: string; violation: GuardViolation | null }>
+	): Promise<{ text: string; guard: PageResult['guard'] }> {
+		const events: PageResult['guard'] = [];
+		let currentPrompt = prompt;
+		let options = model.options;
+
+		for (let attemptNumber = 1; ; attemptNumber++) {
+			const isLastAttempt = attemptNumber > MAX_GUARD_RETRIES;
+			const { text, violation } = await attempt(currentPrompt, options, isLastAttempt);
+
+			if (!violation) {
+				return { text: text.trim(), guard: events };
+			}
 
-				for (const line of lines) {
-					const trimmedLine = line.trim();
-					if (!trimmedLine) continue;
+			const event = { attempt: attemptNumber, type: violation.type, detail: violation.detail };
 
-					try {
-						const chunk = JSON.parse(trimmedLine) as { response?: string; done?: boolean };
-						if (chunk.response) {
-							pageText += chunk.response;
+			if (!isLastAttempt) {
+				console.warn(
+					`[OCRSession] Output guard tripped (${violation.type}), retrying:`,
+					violation.detail
+				);
+				events.push({ ...event, action: 'retried' });
+
+				// Streamed text so far is discarded, here and by the client
+				this.updatePageText(pageNumber, () => '');
+				this.broadcast({
+					type: 'retry',
+					pageNumber,
+					reason: violation.type,
+					attempt: attemptNumber + 1
+				});
 
-							// Broadcast chunk to all connected WebSockets
-							this.broadcast({ type: 'chunk', text: chunk.response });
-						}
-					} catch {
-						// Skip unparseable lines
-					}
-				}
+				currentPrompt = adjustPromptForRetry(prompt, violation);
+				options = adjustOptionsForRetry(options, violation);
+				continue;
 			}
-		} finally {
-			reader.releaseLock();
-		}
 
-		// Process remaining buffer (no post-processing, just get the last chunk)
-		if (buffer.trim()) {
-			try {
-				const chunk = JSON.parse(buffer.trim()) as { response?: string };
-				if (chunk.response) {
-					pageText += chunk.response;
-					this.broadcast({ type: 'chunk', text: chunk.response });
-				}
-			} catch {
-				// Ignore
+			// Out of retries - cut a loop off at its first copy, keep commentary as-is
+			if (violation.type === 'repetition') {
+				events.push({ ...event, action: 'truncated' });
+				return { text: text.slice(0, violation.offset).trim(), guard: events };
 			}
-		}
 
-		return pageText.trim();
+			events.push({ ...event, action: 'accepted' });
+			return { text: text.trim(), guard: events };
+		}
 	}
 
 	/**
-	 * Process a single page/image without streaming (for parallel processing)
-	 * Returns the extracted text
+	 * Process a single page/image and return the extracted text
 	 */
-	private async processPageNonStreaming(imageKey: string, prompt: string): Promise<string> {
-		// Get image from R2
-		console.log('[OCRSession] Fetching image from R2:', imageKey);
-		const object = await this.env.R2_BUCKET.get(imageKey);
-		if (!object) {
-			throw new Error('Image not found in R2: ' + imageKey);
-		}
-
-		// Get image bytes
-		const imageBytes = new Uint8Array(await object.arrayBuffer());
-
-		// Convert to base64 using optimized approach
-		const chunkSize = 32768;
-		let binary = '';
-		for (let i = 0; i < imageBytes.length; i += chunkSize) {
-			const chunk = imageBytes.subarray(i, Math.min(i + chunkSize, imageBytes.length));
-			binary += String.fromCharCode(...chunk);
+	private async processPage(
+		imageKey: string,
+		pageNumber: number,
+		scan: ScanContext,
+		embeddedText: string | null = null
+	): Promise<PageResult> {
+		if (embeddedText !== null) {
+			return this.processTextLayerPage(imageKey, pageNumber, scan, embeddedText);
 		}
-		const imageBase64 = btoa(binary);
 
-		console.log('[OCRSession] Image converted to base64, length:', imageBase64.length);
+		const { model } = scan;
+		const image = await this.loadImageForOcr(imageKey, scan.preprocessOptions);
+		const { imageBase64, mimeType, dimensions, preprocessing } = image;
 
 		// Check if cancelled
 		if (this.isCancelled) {
 			throw new Error('Processing cancelled');
 		}
 
-		// Call Ollama without streaming for parallel processing
-		const OLLAMA_ENDPOINT = 'https://ollama.itsocr.com';
+		// Stream from the configured OCR provider
+		const provider = this.getProvider();
+		// Token log-probabilities of the latest attempt, when the backend returns them
+		let logprobs: number[] = [];
+
+		const { text, guard } = await this.runGuarded(
+			scan.prompt,
+			model,
+			pageNumber,
+			async (attemptPrompt, options, isLastAttempt) => {
+				// Per-attempt controller so the guard can stop a single request
+				const controller = new AbortController();
+				const abort = () => controller.abort();
+				this.abortController?.signal.addEventListener('abort', abort);
+				const timeoutId = setTimeout(abort, 300000); // 5 min timeout
+
+				const outputGuard = createOutputGuard();
+				let pageText = '';
+				logprobs = [];
+				let violation: GuardViolation | null = null;
+
+				try {
+					for await (const text of provider.stream({
+						model: model.id,
+						prompt: attemptPrompt,
+						imageBase64,
+						mimeType,
+						options,
+						signal: controller.signal,
+						onEvent: (event) => scan.backendEvents.push({ pageNumber, ...event }),
+						onLogprobs: (values) => logprobs.push(...values)
+					})) {
+						// The backend is responding, the connection timeout no longer applies
+						clearTimeout(timeoutId);
+
+						// Check for cancellation during streaming
+						if (this.isCancelled) {
+							console.log('[OCRSession] Processing cancelled during streaming');
+							throw new Error('Processing cancelled');
+						}
 
-		const response = await fetch(OLLAMA_ENDPOINT + '/api/generate', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				model: OCR_MODEL,
-				prompt: prompt,
-				images: [imageBase64],
-				stream: false,
-				options: OCR_OPTIONS,
-				keep_alive: '30m'
-			}),
-			signal: this.abortController?.signal
-		});
+						pageText += text;
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			throw new Error('Ollama API error: ' + response.status + ' - ' + errorText);
-		}
+						// Broadcast chunk to all connected WebSockets
+						this.updatePageText(pageNumber, (current) => current + text);
+						this.broadcast({ type: 'chunk', pageNumber, text });
+
+						const found = outputGuard.push(text);
+						if (found) {
+							violation = found;
+							// On the last attempt commentary is kept, only a loop is worth stopping
+							if (!isLastAttempt || found.type === 'repetition') break;
+						}
+					}
+				} finally {
+					clearTimeout(timeoutId);
+					this.abortController?.signal.removeEventListener('abort', abort);
+					// Stop the backend from generating the rest of a rejected answer
+					if (violation) controller.abort();
+				}
 
-		const data = (await response.json()) as { response: string };
-		return (data.response || '').trim();
+				return { text: pageText, violation };
+			}
+		);
+
+		// Tidy the answer for its format, scores and language come from the text without markup
+		const output = cleanupOutput(text, scan.outputFormat);
+		const plainText = toPlainText(output, scan.outputFormat);
+
+		return {
+			text: output,
+			confidence: estimateConfidence({ text: plainText, logprobs, guard }),
+			language: detectLanguage(plainText),
+			dimensions,
+			preprocessing,
+			guard,
+			layout: scan.layout ? await this.readLayout(image, pageNumber, scan) : null,
+			method: 'ocr'
+		};
 	}
 
 	/**
-	 * Log image size info for debugging
-	 * Note: Workers don't have native image resizing capability.
-	 * For production, consider:
-	 * 1. Resize on upload (client-side or via Cloudflare Images)
-	 * 2. Use Cloudflare Image Resizing with public URLs
-	 * 3. Use a WASM-based image library
+	 * Take a born-digital PDF page's text from its text layer instead of the model.
+	 * The page image is only loaded when the scan asks for word and line boxes.
 	 */
-	private async resizeImage(
-		imageBytes: Uint8Array<ArrayBuffer>,
-		_contentType: string,
-		width: number,
-		height: number,
-		maxDimension: number
-	): Promise<Uint8Array<ArrayBuffer>> {
-		// Log what we would resize to
-		if (width > 0 && height > 0) {
-			const scale = maxDimension / Math.max(width, height);
-			const newWidth = Math.round(width * scale);
-			const newHeight = Math.round(height * scale);
-			console.log(
-				`[OCRSession] Image resize would be: ${width}x${height} -> ${newWidth}x${newHeight}`
+	private async processTextLayerPage(
+		imageKey: string,
+		pageNumber: number,
+		scan: ScanContext,
+		embeddedText: string
+	): Promise<PageResult> {
+		const output = cleanupOutput(embeddedText, scan.outputFormat);
+		const plainText = toPlainText(output, scan.outputFormat);
+
+		this.updatePageText(pageNumber, () => output);
+		this.broadcast({ type: 'chunk', pageNumber, text: output });
+
+		const image = scan.layout ? await this.loadImageForOcr(imageKey, scan.preprocessOptions) : null;
+
+		return {
+			text: output,
+			confidence: plainText ? 1 : null, // The text is exact
+			language: detectLanguage(plainText),
+			dimensions: image?.dimensions ?? null,
+			preprocessing: image?.preprocessing ?? null,
+			guard: [],
+			layout: image ? await this.readLayout(image, pageNumber, scan) : null,
+			method: 'text-layer'
+		};
+	}
+
+	/**
+	 * Word and line boxes of a page, null when the layout pass fails so the page keeps its text
+	 */
+	private async readLayout(
+		image: PageImage,
+		pageNumber: number,
+		scan: ScanContext
+	): Promise<PageLayout | null> {
+		const { imageBase64, mimeType, dimensions, preprocessing } = image;
+		if (!dimensions) return null;
+
+		// Boxes refer to the page as displayed, which EXIF orientations 5-8 turn sideways
+		const turned = (preprocessing?.exifOrientation ?? 1) >= 5;
+		try {
+			return await extractLayout(
+				this.getProvider(),
+				scan.model,
+				{ imageBase64, mimeType },
+				{
+					width: turned ? dimensions.height : dimensions.width,
+					height: turned ? dimensions.width : dimensions.height,
+					rotation: preprocessing?.rotation
+				},
+				this.abortController?.signal
 			);
+		} catch (error) {
+			if (this.isCancelled) throw error;
+			console.warn(`[OCRSession] Page ${pageNumber} layout failed:`, error);
+			return null;
 		}
-
-		// Workers don't have native image processing capability
-		// Return original bytes - the model can handle large images, just slower
-		console.log(
-			`[OCRSession] Using original image (${(imageBytes.length / 1024 / 1024).toFixed(2)}MB)`
-		);
-		return imageBytes;
 	}
 
 	// WebSocket event handlers for Hibernation API
@@ -0,0 +1,143 @@
+/**
+ * OCR model registry
+ * Defines the vision models available for OCR, their default options and which plans may use them
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import type { PlanId } from './plans';
+import type { OcrOptions } from '../ocr/providers/types';
+import { isNonLatinLanguage } from '../ocr/language';
+
+export interface OcrModel {
+	id: string; // Model tag as understood by the OCR backend
+	displayName: string;
+	description: string;
+	options: OcrOptions; // Default sampling options for this model
+	maxContext: number; // Context window in tokens
+	plans: PlanId[]; // Plans allowed to use this model
+	nonLatin?: boolean; // Preferred for documents detected in non-Latin scripts
+}
+
+// Options optimized for OCR accuracy and preventing repetition/commentary
+const BASE_OCR_OPTIONS: OcrOptions = {
+	temperature: 0, // Deterministic output for accuracy
+	num_predict: 8192, // Hard cap - enough for most documents (~6k words)
+	num_gpu: 999,
+	main_gpu: 0,
+	num_thread: 8,
+	repeat_penalty: 1.8, // Stronger penalty to stop repetition loops
+	repeat_last_n: 512, // Longer lookback to catch repetitive patterns
+	top_k: 5, // Tighter token selection for deterministic OCR
+	top_p: 0.5 // Much tighter sampling to prevent hallucinations/commentary
+};
+
+export const DEFAULT_OCR_MODEL = 'llama3.2-vision:latest';
+
+export const OCR_MODELS: Record<string, OcrModel> = {
+	'llama3.2-vision:latest': {
+		id: 'llama3.2-vision:latest',
+		displayName: 'Llama 3.2 Vision',
+		description: 'Balanced general-purpose OCR',
+		options: { ...BASE_OCR_OPTIONS, num_ctx: 16384 },
+		maxContext: 16384,
+		plans: ['free', 'pro', 'enterprise']
+	},
+	'qwen2.5vl:3b': {
+		id: 'qwen2.5vl:3b',
+		displayName: 'Qwen 2.5 VL 3B (Fast)',
+		description: 'Faster, lighter model for clean printed text',
+		options: { ...BASE_OCR_OPTIONS, num_ctx: 8192, num_predict: 4096 },
+		maxContext: 8192,
+		plans: ['free', 'pro', 'enterprise']
+	},
+	'qwen2.5vl:7b': {
+		id: 'qwen2.5vl:7b',
+		displayName: 'Qwen 2.5 VL 7B',
+		description: 'Strong on tables, forms and non-Latin scripts',
+		options: { ...BASE_OCR_OPTIONS, num_ctx: 32768 },
+		maxContext: 32768,
+		plans: ['pro', 'enterprise'],
+		nonLatin: true
+	},
+	'minicpm-v:8b': {
+		id: 'minicpm-v:8b',
+		displayName: 'MiniCPM-V (Handwriting)',
+		description: 'Tuned for handwritten notes and low-quality photos',
+		options: { ...BASE_OCR_OPTIONS, num_ctx: 16384, repeat_penalty: 1.5 },
+		maxContext: 16384,
+		plans: ['pro', 'enterprise']
+	},
+	'llama3.2-vision:90b': {
+		id: 'llama3.2-vision:90b',
+		displayName: 'Llama 3.2 Vision 90B',
+		description: 'Highest accuracy for difficult documents, slower',
+		options: { ...BASE_OCR_OPTIONS, num_ctx: 16384 },
+		maxContext: 16384,
+		plans: ['enterprise']
+	}
+};
+
+export const OCR_MODEL_LIST = Object.values(OCR_MODELS);
+
+/**
+ * Look up a model, falling back to the default for unknown or missing ids
+ */
+export function getOcrModel(modelId: string | null | undefined): OcrModel {
+	if (modelId && Object.hasOwn(OCR_MODELS, modelId)) {
+		return OCR_MODELS[modelId];
+	}
+	return OCR_MODELS[DEFAULT_OCR_MODEL];
+}
+
+/**
+ * Check whether a model exists in the registry
+ */
+export function isKnownOcrModel(modelId: string): boolean {
+	return Object.hasOwn(OCR_MODELS, modelId);
+}
+
+/**
+ * Check whether a plan may use a model
+ */
+export function checkOcrModelAccess(
+	modelId: string,
+	planId: PlanId
+): { allowed: boolean; error?: string } {
+	if (!isKnownOcrModel(modelId)) {
+		return {
+			allowed: false,
+			error: `Unknown model: ${modelId}. Available models: ${Object.keys(OCR_MODELS).join(', ')}`
+		};
+	}
+
+	const model = OCR_MODELS[modelId];
+	if (!model.plans.includes(planId)) {
+		return {
+			allowed: false,
+			error: `The ${model.displayName} model is not available on your plan. Please upgrade to use it.`
+		};
+	}
+
+	return { allowed: true };
+}
+
+/**
+ * Models available to a plan
+ */
+export function getOcrModelsForPlan(planId: PlanId): OcrModel[] {
+	return OCR_MODEL_LIST.filter((model) => model.plans.includes(planId));
+}
+
+/**
+ * Model for rescanning a document in the given languages (most common first).
+ * Scans on the default model move to a model suited to non-Latin scripts when the plan has one.
+ */
+export function routeOcrModel(modelId: string, languages: string[], planId: PlanId): string {
+	if (modelId !== DEFAULT_OCR_MODEL || !isNonLatinLanguage(languages[0])) {
+		return modelId;
+	}
+
+	const routed = OCR_MODEL_LIST.find((model) => model.nonLatin && model.plans.includes(planId));
+	return routed?.id ?? modelId;
+}
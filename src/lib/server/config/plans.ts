@@ -14,6 +14,7 @@ export interface Plan {
 	priceYearly: number; // in cents
 	imagesPerMonth: number; // -1 for unlimited
 	maxImageSizeMb: number;
+	maxPdfPages: number; // Pages of a PDF read by the REST API, or of a TIFF split on the server
 	priorityProcessing: boolean;
 	apiAccess: boolean;
 	retentionDays: number;
@@ -29,6 +30,7 @@ export const PLANS: Record<PlanId, Plan> = {
 		priceYearly: 0,
 		imagesPerMonth: 10,
 		maxImageSizeMb: 5,
+		maxPdfPages: 10,
 		priorityProcessing: false,
 		apiAccess: true,
 		retentionDays: 7
@@ -42,6 +44,7 @@ export const PLANS: Record<PlanId, Plan> = {
 		priceYearly: 9990, // $99.90 (2 months free)
 		imagesPerMonth: 500,
 		maxImageSizeMb: 20,
+		maxPdfPages: 100,
 		priorityProcessing: true,
 		apiAccess: true,
 		retentionDays: 90
@@ -55,6 +58,7 @@ export const PLANS: Record<PlanId, Plan> = {
 		priceYearly: 49990, // $499.90 (2 months free)
 		imagesPerMonth: -1, // unlimited
 		maxImageSizeMb: 50,
+		maxPdfPages: 500,
 		priorityProcessing: true,
 		apiAccess: true,
 		retentionDays: 365
@@ -0,0 +1,166 @@
+/**
+ * Built-in extraction templates
+ * Shipped with every account next to the user's own templates (the `template` table).
+ * A template bundles a prompt addition, an output format, an optional field schema
+ * and an optional default model.
+ */
+
+import type { OutputFormat } from '../ocr/format';
+import type { JsonSchema } from '../ocr/extraction';
+
+export interface OcrTemplate {
+	id: string;
+	name: string;
+	description: string | null;
+	prompt: string | null; // Appended to the base OCR prompt like a custom prompt
+	outputFormat: OutputFormat;
+	schema: JsonSchema | null; // Fields to extract, see ocr/extraction.ts
+	model: string | null; // Default model, null for the registry default
+}
+
+// Built-in ids cannot collide with the UUIDs of user templates
+const BUILTIN_PREFIX = 'builtin-';
+
+const MONEY: JsonSchema = { type: 'number' };
+
+export const BUILTIN_TEMPLATES: Record<string, OcrTemplate> = {
+	'builtin-receipt': {
+		id: 'builtin-receipt',
+		name: 'Receipt',
+		description: 'Store receipts: merchant, date, line items and totals',
+		prompt:
+			'This is a store receipt. Keep each line item on one line with its quantity and price, and keep the totals section.',
+		outputFormat: 'text',
+		schema: {
+			type: 'object',
+			properties: {
+				merchant: { type: 'string' },
+				date: { type: 'string', description: 'As printed on the receipt' },
+				currency: { type: 'string', description: 'ISO 4217 code, e.g. USD' },
+				items: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: {
+							description: { type: 'string' },
+							quantity: { type: 'number' },
+							price: MONEY
+						},
+						required: ['description']
+					}
+				},
+				subtotal: MONEY,
+				tax: MONEY,
+				total: MONEY
+			},
+			required: ['merchant', 'total']
+		},
+		model: null
+	},
+	'builtin-invoice': {
+		id: 'builtin-invoice',
+		name: 'Invoice',
+		description: 'Supplier invoices: parties, numbers, dates, line items and totals',
+		prompt:
+			'This is an invoice. Keep the line item table with its columns, and the invoice number, dates and totals.',
+		outputFormat: 'markdown',
+		schema: {
+			type: 'object',
+			properties: {
+				invoiceNumber: { type: 'string' },
+				issueDate: { type: 'string' },
+				dueDate: { type: 'string' },
+				seller: {
+					type: 'object',
+					properties: {
+						name: { type: 'string' },
+						address: { type: 'string' },
+						taxId: { type: 'string' }
+					}
+				},
+				buyer: {
+					type: 'object',
+					properties: {
+						name: { type: 'string' },
+						address: { type: 'string' }
+					}
+				},
+				currency: { type: 'string', description: 'ISO 4217 code, e.g. EUR' },
+				lineItems: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: {
+							description: { type: 'string' },
+							quantity: { type: 'number' },
+							unitPrice: MONEY,
+							amount: MONEY
+						},
+						required: ['description']
+					}
+				},
+				subtotal: MONEY,
+				tax: MONEY,
+				total: MONEY
+			},
+			required: ['invoiceNumber', 'total']
+		},
+		model: null
+	},
+	'builtin-id-card': {
+		id: 'builtin-id-card',
+		name: 'ID Card',
+		description: 'Identity cards, passports and driving licences',
+		prompt:
+			'This is an identity document. Read every printed field, including the machine-readable zone if there is one.',
+		outputFormat: 'text',
+		schema: {
+			type: 'object',
+			properties: {
+				documentType: { type: 'string' },
+				documentNumber: { type: 'string' },
+				surname: { type: 'string' },
+				givenNames: { type: 'string' },
+				dateOfBirth: { type: 'string' },
+				sex: { type: 'string' },
+				nationality: { type: 'string' },
+				issueDate: { type: 'string' },
+				expiryDate: { type: 'string' },
+				issuingAuthority: { type: 'string' }
+			},
+			required: ['documentNumber']
+		},
+		model: null
+	},
+	'builtin-business-card': {
+		id: 'builtin-business-card',
+		name: 'Business Card',
+		description: 'Contact details from business cards',
+		prompt: 'This is a business card. Keep each contact detail on its own line.',
+		outputFormat: 'text',
+		schema: {
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				title: { type: 'string' },
+				company: { type: 'string' },
+				emails: { type: 'array', items: { type: 'string' } },
+				phones: { type: 'array', items: { type: 'string' } },
+				website: { type: 'string' },
+				address: { type: 'string' }
+			},
+			required: ['name']
+		},
+		model: null
+	}
+};
+
+export const BUILTIN_TEMPLATE_LIST = Object.values(BUILTIN_TEMPLATES);
+
+export function isBuiltinTemplateId(templateId: string): boolean {
+	return templateId.startsWith(BUILTIN_PREFIX);
+}
+
+export function getBuiltinTemplate(templateId: string): OcrTemplate | null {
+	return BUILTIN_TEMPLATES[templateId] ?? null;
+}
@@ -4,6 +4,11 @@ import { relations } from 'drizzle-orm';
 // Re-export plan types and utilities from config
 // Note: Using relative import for drizzle-kit compatibility (it runs outside SvelteKit bundler)
 export { type PlanId, type Plan, PLANS, PLAN_LIST, getPlan } from '../config/plans';
+import type { ScanMetadata } from '../ocr/metadata';
+import type { PageMethod, PageStatus } from '../ocr/pages';
+import type { OutputFormat } from '../ocr/format';
+import type { ExtractedData, JsonSchema } from '../ocr/extraction';
+import type { PageLayout } from '../ocr/layout';
 
 // =============================================================================
 // Better Auth tables (with custom planId field)
@@ -64,9 +69,6 @@ export const verification = sqliteTable('verification', {
 // Scanned Images
 // =============================================================================
 
-// Page delimiter for multi-page PDFs - used to split extracted text by page
-export const PAGE_DELIMITER = '\n\n---PAGE_BREAK---\n\n';
-
 export const scannedImage = sqliteTable(
 	'scanned_image',
 	{
@@ -85,16 +87,28 @@ export const scannedImage = sqliteTable(
 		height: integer('height'),
 		// PDF-specific fields
 		isPdf: integer('is_pdf', { mode: 'boolean' }).notNull().default(false),
-		pageCount: integer('page_count'), // Number of pages (1 for images, N for PDFs)
-		pageImages: text('page_images', { mode: 'json' }).$type<string[]>(), // R2 keys for page images
+		pageCount: integer('page_count'), // Number of pages (1 for images, N for PDFs and multi-image documents)
+		pageImages: text('page_images', { mode: 'json' }).$type<string[]>(), // R2 keys for page images, in page order
+		pageRange: text('page_range'), // PDF pages read, like "1-3,7,10-" (null for every page)
 		customPrompt: text('custom_prompt'), // User's custom addition to the default prompt
-		extractedText: text('extracted_text'), // For PDFs: pages separated by PAGE_DELIMITER
-		confidence: real('confidence'),
-		language: text('language'),
+		model: text('model'), // OCR model id from the model registry (config/models.ts)
+		outputFormat: text('output_format').$type<OutputFormat>().notNull().default('text'), // 'text', 'markdown' or 'html'
+		extractedText: text('extracted_text'), // Whole document, per-page text is in scanned_page
+		confidence: real('confidence'), // 0-1 estimate over all pages, see ocr/confidence.ts
+		language: text('language'), // Detected ISO 639-1 codes, most common first (e.g. "en,fr")
+		extractionSchema: text('extraction_schema', { mode: 'json' }).$type<JsonSchema>(), // Fields to extract, see ocr/extraction.ts
+		extractedData: text('extracted_data', { mode: 'json' }).$type<ExtractedData>(), // Object matching extractionSchema
+		extractionError: text('extraction_error'), // Why extraction failed after its repair attempts
+		templateId: text('template_id'), // Template the scan was created with (user or built-in id)
+		translateTo: text('translate_to'), // ISO 639-1 code to translate the text into, null for none
+		translatedText: text('translated_text'), // Whole document translation, per page in scanned_page
+		translationError: text('translation_error'), // First page translation failure
+		summary: text('summary'), // Generated on request, shown in the dashboard list
+		layout: integer('layout', { mode: 'boolean' }).notNull().default(false), // Read word and line boxes per page
 		processingTimeMs: integer('processing_time_ms'),
-		status: text('status').notNull().default('pending'), // 'pending', 'processing', 'completed', 'failed'
+		status: text('status').notNull().default('pending'), // 'pending', 'processing', 'completed', 'partial' (some pages failed), 'failed', 'cancelled'
 		errorMessage: text('error_message'),
-		metadata: text('metadata', { mode: 'json' }),
+		metadata: text('metadata', { mode: 'json' }).$type<ScanMetadata>(), // See ocr/metadata.ts
 		createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
 		updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull()
 	},
@@ -103,10 +117,39 @@ export const scannedImage = sqliteTable(
 		index('scanned_image_created_idx').on(table.createdAt),
 		index('scanned_image_status_idx').on(table.status),
 		index('scanned_image_hash_idx').on(table.userId, table.contentHash), // For duplicate lookup
+		index('scanned_image_confidence_idx').on(table.userId, table.confidence), // For review sorting
 		uniqueIndex('scanned_image_key_idx').on(table.imageKey)
 	]
 );
 
+// One row per page of a scan - a single image is page 1
+export const scannedPage = sqliteTable(
+	'scanned_page',
+	{
+		id: text('id').primaryKey(),
+		imageId: text('image_id')
+			.notNull()
+			.references(() => scannedImage.id, { onDelete: 'cascade' }),
+		pageNumber: integer('page_number').notNull(), // 1-based
+		imageKey: text('image_key').notNull(), // R2 key of the page image (the original for single images)
+		width: integer('width'),
+		height: integer('height'),
+		text: text('text'),
+		confidence: real('confidence'), // 0-1 estimate, null until the page is read
+		language: text('language'), // Detected ISO 639-1 codes, see ocr/language.ts
+		translatedText: text('translated_text'), // Set when the scan has translateTo
+		layout: text('layout', { mode: 'json' }).$type<PageLayout>(), // Blocks, lines and words with boxes, see ocr/layout.ts
+		embeddedText: text('embedded_text'), // Usable text layer of a PDF page, see ocr/text-layer.ts
+		method: text('method').$type<PageMethod>(), // How the text was read, null until the page is read
+		status: text('status').$type<PageStatus>().notNull().default('pending'),
+		processingTimeMs: integer('processing_time_ms'),
+		errorMessage: text('error_message'),
+		createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+		updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull()
+	},
+	(table) => [uniqueIndex('scanned_page_image_page_idx').on(table.imageId, table.pageNumber)]
+);
+
 // =============================================================================
 // Usage Tracking (for monthly limits)
 // =============================================================================
@@ -122,6 +165,7 @@ export const usageRecord = sqliteTable(
 		periodEnd: integer('period_end', { mode: 'timestamp' }).notNull(),
 		imagesScanned: integer('images_scanned').notNull().default(0),
 		bytesProcessed: integer('bytes_processed').notNull().default(0),
+		textLayerPages: integer('text_layer_pages').notNull().default(0), // Pages taken from PDF text layers
 		createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
 		updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull()
 	},
@@ -162,6 +206,29 @@ export const apiToken = sqliteTable(
 	]
 );
 
+// =============================================================================
+// Extraction Templates (built-in templates live in config/templates.ts)
+// =============================================================================
+
+export const template = sqliteTable(
+	'template',
+	{
+		id: text('id').primaryKey(),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id, { onDelete: 'cascade' }),
+		name: text('name').notNull(),
+		description: text('description'),
+		prompt: text('prompt'), // Appended to the base OCR prompt like a custom prompt
+		outputFormat: text('output_format').$type<OutputFormat>().notNull().default('text'),
+		schema: text('schema', { mode: 'json' }).$type<JsonSchema>(), // Fields to extract, see ocr/extraction.ts
+		model: text('model'), // Default OCR model, null for the registry default
+		createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+		updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull()
+	},
+	(table) => [index('template_user_idx').on(table.userId)]
+);
+
 // =============================================================================
 // Relations
 // =============================================================================
@@ -171,7 +238,8 @@ export const userRelations = relations(user, ({ many }) => ({
 	accounts: many(account),
 	scannedImages: many(scannedImage),
 	usageRecords: many(usageRecord),
-	apiTokens: many(apiToken)
+	apiTokens: many(apiToken),
+	templates: many(template)
 }));
 
 export const sessionRelations = relations(session, ({ one }) => ({
@@ -188,10 +256,18 @@ export const accountRelations = relations(account, ({ one }) => ({
 	})
 }));
 
-export const scannedImageRelations = relations(scannedImage, ({ one }) => ({
+export const scannedImageRelations = relations(scannedImage, ({ one, many }) => ({
 	user: one(user, {
 		fields: [scannedImage.userId],
 		references: [user.id]
+	}),
+	pages: many(scannedPage)
+}));
+
+export const scannedPageRelations = relations(scannedPage, ({ one }) => ({
+	image: one(scannedImage, {
+		fields: [scannedPage.imageId],
+		references: [scannedImage.id]
 	})
 }));
 
@@ -208,3 +284,10 @@ export const apiTokenRelations = relations(apiToken, ({ one }) => ({
 		references: [user.id]
 	})
 }));
+
+export const templateRelations = relations(template, ({ one }) => ({
+	user: one(user, {
+		fields: [template.userId],
+		references: [user.id]
+	})
+}));
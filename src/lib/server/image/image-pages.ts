@@ -0,0 +1,245 @@
+/**
+ * Server-side TIFF and HEIC/HEIF decoding
+ *
+ * Most browsers cannot decode these formats, and neither can Photon or the OCR providers.
+ * Every frame of a TIFF becomes a page, like the pages of a PDF, and a HEIC/HEIF photo
+ * becomes its primary image, both as JPEG page images sized like the ones the upload
+ * page renders. TIFF is decoded with UTIF and HEIC/HEIF with the libheif WASM library.
+ *
+ * Only imported by the OCRSession Durable Object: the WASM modules are resolved by
+ * wrangler at deploy time and are not bundled into the SvelteKit app.
+ */
+
+import UTIF, { type IFD } from 'utif2';
+import libheif from 'libheif-js/libheif-wasm/libheif.js';
+import libheifWasm from 'libheif-js/libheif-wasm/libheif.wasm';
+import { fitWithin } from './preprocess';
+import { encodeJpeg, selectPages, type PageRenderOptions, type RenderedPage } from './page-images';
+
+// Formats decoded here before they are preprocessed or read
+export const DECODED_MIME_TYPES = ['image/tiff', 'image/heic', 'image/heif'];
+
+export function isDecodedMimeType(mimeType: string): boolean {
+	return DECODED_MIME_TYPES.includes(mimeType);
+}
+
+// Pixel aspect ratios closer to square than this are left as they are
+const ASPECT_TOLERANCE = 0.02;
+// Larger frames are refused before decoding, their RGBA pixels would not fit in memory.
+// An A4 page scanned at 400 dpi is about 15.5 megapixels.
+const MAX_DECODED_PIXELS = 16_000_000;
+
+/**
+ * Thrown when a frame has more pixels than can be decoded
+ */
+export class ImageSizeError extends Error {
+	constructor(width: number, height: number) {
+		super(
+			`The image is ${width}x${height} pixels, the limit is ${MAX_DECODED_PIXELS / 1_000_000} megapixels`
+		);
+		this.name = 'ImageSizeError';
+	}
+}
+
+function checkPixelCount(width: number, height: number): void {
+	if (width * height > MAX_DECODED_PIXELS) {
+		throw new ImageSizeError(width, height);
+	}
+}
+
+interface DecodedFrame {
+	data: Uint8Array; // RGBA
+	width: number;
+	height: number;
+	pixelAspect: number; // Width of a pixel over its height
+}
+
+// The parts of libheif-js's embind API used here, which its typings leave out
+interface HeifImage {
+	get_width(): number;
+	get_height(): number;
+	is_primary(): boolean;
+	display(
+		target: { data: Uint8ClampedArray; width: number; height: number },
+		callback: (result: { data: Uint8ClampedArray } | null) => void
+	): void;
+	free(): void;
+}
+
+interface HeifModule {
+	HeifDecoder: new () => { decoder: unknown; decode(bytes: Uint8Array): HeifImage[] };
+	heif_context_free(context: unknown): void;
+}
+
+let heifModule: HeifModule | null = null;
+
+/**
+ * libheif, instantiated once per isolate from the module compiled by wrangler
+ */
+function loadHeif(): HeifModule {
+	if (!heifModule) {
+		// With nodejs_compat, Emscripten takes its Node.js branch, which reads __dirname to
+		// locate the WASM file even though it is handed the compiled module below
+		(globalThis as { __dirname?: string }).__dirname ??= '/';
+
+		heifModule = libheif({
+			instantiateWasm: (
+				imports: WebAssembly.Imports,
+				receiveInstance: (instance: WebAssembly.Instance) => void
+			) => {
+				const instance = new WebAssembly.Instance(libheifWasm, imports);
+				receiveInstance(instance);
+				return instance.exports;
+			}
+		}) as unknown as HeifModule;
+	}
+	return heifModule;
+}
+
+/**
+ * The primary image of a HEIC/HEIF file, with its rotation and mirroring applied
+ */
+async function decodeHeif(bytes: Uint8Array): Promise<DecodedFrame> {
+	const heif = loadHeif();
+	const decoder = new heif.HeifDecoder();
+	const images = decoder.decode(bytes);
+
+	try {
+		const image = images.find((candidate) => candidate.is_primary()) ?? images[0];
+		if (!image) {
+			throw new Error('The HEIC/HEIF image could not be read');
+		}
+
+		const width = image.get_width();
+		const height = image.get_height();
+		checkPixelCount(width, height);
+		const result = await new Promise<{ data: Uint8ClampedArray } | null>((resolve) =>
+			image.display({ data: new Uint8ClampedArray(width * height * 4), width, height }, resolve)
+		);
+		if (!result) {
+			throw new Error('The HEIC/HEIF image could not be decoded');
+		}
+
+		return {
+			data: new Uint8Array(result.data.buffer, result.data.byteOffset, result.data.byteLength),
+			width,
+			height,
+			pixelAspect: 1
+		};
+	} finally {
+		for (const image of images) {
+			image.free();
+		}
+		heif.heif_context_free(decoder.decoder);
+	}
+}
+
+/**
+ * Value of a TIFF RATIONAL tag, which UTIF reads as [numerator, denominator] pairs
+ */
+function rationalTag(ifd: IFD, tag: string): number {
+	const value = ifd[tag] as unknown;
+	const [numerator, denominator] = (Array.isArray(value) ? value[0] : null) ?? [];
+	return typeof numerator === 'number' && typeof denominator === 'number' && denominator > 0
+		? numerator / denominator
+		: 0;
+}
+
+/**
+ * The frames of a TIFF that are pages, leaving out reduced-resolution copies like thumbnails
+ */
+function tiffPages(buffer: ArrayBuffer): IFD[] {
+	return UTIF.decode(buffer).filter((ifd) => {
+		const subfileType = ifd.t254 as number[] | undefined;
+		return ifd.t256 !== undefined && ((subfileType?.[0] ?? 0) & 1) === 0;
+	});
+}
+
+function decodeTiffFrame(buffer: ArrayBuffer, ifd: IFD): DecodedFrame {
+	// ImageWidth and ImageLength tags, read before the pixels are
+	checkPixelCount((ifd.t256 as number[])[0] ?? 0, (ifd.t257 as number[] | undefined)?.[0] ?? 0);
+	UTIF.decodeImage(buffer, ifd);
+	const data = UTIF.toRGBA8(ifd);
+	if (!ifd.width || !ifd.height || data.length < ifd.width * ifd.height * 4) {
+		throw new Error('A TIFF page could not be decoded');
+	}
+
+	// Fax pages are often scanned at 204x98 dpi, so their pixels are twice as tall as wide
+	const xResolution = rationalTag(ifd, 't282');
+	const yResolution = rationalTag(ifd, 't283');
+	const pixelAspect = xResolution > 0 && yResolution > 0 ? yResolution / xResolution : 1;
+
+	return { data, width: ifd.width, height: ifd.height, pixelAspect };
+}
+
+/**
+ * A JPEG page from a decoded frame, with square pixels and fitting options.maxDimension
+ */
+function toPage(frame: DecodedFrame, pageNumber: number, options: PageRenderOptions): RenderedPage {
+	const stretched =
+		Math.abs(frame.pixelAspect - 1) > ASPECT_TOLERANCE
+			? frame.pixelAspect < 1
+				? { width: frame.width, height: Math.round(frame.height / frame.pixelAspect) }
+				: { width: Math.round(frame.width * frame.pixelAspect), height: frame.height }
+			: { width: frame.width, height: frame.height };
+	const target = fitWithin(stretched.width, stretched.height, options.maxDimension);
+
+	return {
+		pageNumber,
+		bytes: encodeJpeg(frame.data, frame.width, frame.height, options.quality ?? 90, target),
+		width: target.width,
+		height: target.height,
+		text: ''
+	};
+}
+
+/**
+ * Render the frames of a TIFF, or the primary image of a HEIC/HEIF photo, one at a time,
+ * in order, so only one frame is held at once. Throws PageSelectionError before the first
+ * page when the selection does not fit the image or has more than options.maxPages pages,
+ * and ImageSizeError for a frame with more pixels than can be decoded.
+ */
+export async function* renderImagePages(
+	bytes: Uint8Array,
+	mimeType: string,
+	options: PageRenderOptions
+): AsyncGenerator<RenderedPage> {
+	if (mimeType === 'image/tiff') {
+		const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+		const frames = tiffPages(buffer as ArrayBuffer);
+		if (frames.length === 0) {
+			throw new Error('The TIFF has no pages');
+		}
+
+		for (const pageNumber of selectPages(frames.length, options)) {
+			const ifd = frames[pageNumber - 1];
+			yield toPage(decodeTiffFrame(buffer as ArrayBuffer, ifd), pageNumber, options);
+			// Let the decoded pixels go before the next frame
+			ifd.data = new Uint8Array(0);
+		}
+		return;
+	}
+
+	if (mimeType === 'image/heic' || mimeType === 'image/heif') {
+		selectPages(1, options);
+		yield toPage(await decodeHeif(bytes), 1, options);
+		return;
+	}
+
+	throw new Error(`Unsupported image type: ${mimeType}`);
+}
+
+/**
+ * The first page of a TIFF or HEIC/HEIF image as a JPEG fitting maxDimension, for images
+ * stored without page images
+ */
+export async function decodeFirstPage(
+	bytes: Uint8Array,
+	mimeType: string,
+	maxDimension: number
+): Promise<Uint8Array<ArrayBuffer>> {
+	for await (const page of renderImagePages(bytes, mimeType, { maxDimension, pageRange: '1' })) {
+		return new Uint8Array(page.bytes);
+	}
+	throw new Error('The image has no pages');
+}
@@ -0,0 +1,514 @@
+/**
+ * Orientation and skew correction for OCR
+ *
+ * Applies EXIF orientation, detects pages rotated by 90/180/270 degrees and
+ * straightens small skew angles. Works on raw RGBA buffers (as returned by
+ * PhotonImage.get_raw_pixels) so it has no dependency on the image library.
+ */
+
+export interface RgbaImage {
+	data: Uint8Array;
+	width: number;
+	height: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+export interface OrientationOptions {
+	autoRotate: boolean; // Detect 90/180/270 degree rotation
+	deskew: boolean; // Detect and straighten small skew angles
+	rotation?: Rotation; // Manual clockwise rotation, replaces auto-detection
+}
+
+export interface OrientationResult {
+	image: RgbaImage;
+	rotation: Rotation; // Clockwise rotation applied (after EXIF orientation)
+	rotationSource: 'auto' | 'manual' | null;
+	skewAngle: number; // Degrees the content was rotated to straighten it
+}
+
+// Detection runs on a downsampled grayscale copy
+const ANALYSIS_MAX_DIMENSION = 800;
+// Column profile must be this much sharper than the row profile to call the text vertical
+const VERTICAL_TEXT_RATIO = 1.3;
+// Descender mass must exceed ascender mass by this much to call the page upside down
+const UPSIDE_DOWN_RATIO = 1.25;
+const MIN_TEXT_LINES = 3;
+const MAX_SKEW_ANGLE = 10;
+const MIN_SKEW_ANGLE = 0.3;
+// Share of dark pixels outside which the image is unlikely to be a text page
+const MIN_INK_RATIO = 0.002;
+const MAX_INK_RATIO = 0.4;
+
+// =============================================================================
+// EXIF orientation
+// =============================================================================
+
+/**
+ * Read the EXIF orientation tag (1-8) from a JPEG, returns 1 when absent
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+	if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+		return 1;
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let offset = 2;
+
+	while (offset + 4 <= bytes.length) {
+		if (bytes[offset] !== 0xff) return 1;
+
+		const marker = bytes[offset + 1];
+		// Start of scan or end of image - no more metadata segments
+		if (marker === 0xda || marker === 0xd9) return 1;
+
+		const length = view.getUint16(offset + 2);
+		const segmentEnd = Math.min(offset + 2 + length, bytes.length);
+
+		// APP1 segment starting with "Exif\0\0"
+		if (
+			marker === 0xe1 &&
+			offset + 10 <= segmentEnd &&
+			view.getUint32(offset + 4) === 0x45786966 &&
+			view.getUint16(offset + 8) === 0
+		) {
+			return readTiffOrientation(view, offset + 10, segmentEnd);
+		}
+
+		offset += 2 + length;
+	}
+
+	return 1;
+}
+
+function readTiffOrientation(view: DataView, start: number, end: number): number {
+	if (start + 8 > end) return 1;
+
+	const byteOrder = view.getUint16(start);
+	if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+	const littleEndian = byteOrder === 0x4949;
+
+	const ifd = start + view.getUint32(start + 4, littleEndian);
+	if (ifd + 2 > end) return 1;
+
+	const entries = view.getUint16(ifd, littleEndian);
+	for (let i = 0; i < entries; i++) {
+		const entry = ifd + 2 + i * 12;
+		if (entry + 12 > end) break;
+
+		if (view.getUint16(entry, littleEndian) === 0x0112) {
+			const value = view.getUint16(entry + 8, littleEndian);
+			return value >= 1 && value <= 8 ? value : 1;
+		}
+	}
+
+	return 1;
+}
+
+/**
+ * Transform pixels so the image displays upright for the given EXIF orientation
+ */
+export function applyExifOrientation(image: RgbaImage, orientation: number): RgbaImage {
+	switch (orientation) {
+		case 2:
+			return flipHorizontal(image);
+		case 3:
+			return rotateClockwise(image, 180);
+		case 4:
+			return rotateClockwise(flipHorizontal(image), 180);
+		case 5:
+			return rotateClockwise(flipHorizontal(image), 270);
+		case 6:
+			return rotateClockwise(image, 90);
+		case 7:
+			return rotateClockwise(flipHorizontal(image), 90);
+		case 8:
+			return rotateClockwise(image, 270);
+		default:
+			return image;
+	}
+}
+
+// =============================================================================
+// Pixel transforms
+// =============================================================================
+
+export function flipHorizontal(image: RgbaImage): RgbaImage {
+	const { data, width, height } = image;
+	const out = new Uint8Array(data.length);
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const src = (y * width + x) * 4;
+			const dst = (y * width + (width - 1 - x)) * 4;
+			out[dst] = data[src];
+			out[dst + 1] = data[src + 1];
+			out[dst + 2] = data[src + 2];
+			out[dst + 3] = data[src + 3];
+		}
+	}
+
+	return { data: out, width, height };
+}
+
+/**
+ * Lossless rotation by a multiple of 90 degrees
+ */
+export function rotateClockwise(image: RgbaImage, rotation: Rotation): RgbaImage {
+	if (rotation === 0) return image;
+
+	const { data, width, height } = image;
+	const swap = rotation !== 180;
+	const outWidth = swap ? height : width;
+	const outHeight = swap ? width : height;
+	const out = new Uint8Array(data.length);
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let dx: number;
+			let dy: number;
+			if (rotation === 90) {
+				dx = height - 1 - y;
+				dy = x;
+			} else if (rotation === 180) {
+				dx = width - 1 - x;
+				dy = height - 1 - y;
+			} else {
+				dx = y;
+				dy = width - 1 - x;
+			}
+
+			const src = (y * width + x) * 4;
+			const dst = (dy * outWidth + dx) * 4;
+			out[dst] = data[src];
+			out[dst + 1] = data[src + 1];
+			out[dst + 2] = data[src + 2];
+			out[dst + 3] = data[src + 3];
+		}
+	}
+
+	return { data: out, width: outWidth, height: outHeight };
+}
+
+/**
+ * Rotate by an arbitrary angle (degrees, clockwise) with bilinear sampling.
+ * The canvas grows to fit the rotated content and uncovered areas are filled white.
+ */
+export function rotateByAngle(image: RgbaImage, angle: number): RgbaImage {
+	const { data, width, height } = image;
+	const radians = (angle * Math.PI) / 180;
+	const cos = Math.cos(radians);
+	const sin = Math.sin(radians);
+
+	const outWidth = Math.ceil(Math.abs(width * cos) + Math.abs(height * sin));
+	const outHeight = Math.ceil(Math.abs(width * sin) + Math.abs(height * cos));
+	const out = new Uint8Array(outWidth * outHeight * 4).fill(255);
+
+	const cx = (width - 1) / 2;
+	const cy = (height - 1) / 2;
+	const ocx = (outWidth - 1) / 2;
+	const ocy = (outHeight - 1) / 2;
+
+	for (let y = 0; y < outHeight; y++) {
+		for (let x = 0; x < outWidth; x++) {
+			// Map the destination pixel back into the source (inverse rotation)
+			const rx = x - ocx;
+			const ry = y - ocy;
+			const sx = rx * cos + ry * sin + cx;
+			const sy = -rx * sin + ry * cos + cy;
+
+			if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) continue;
+
+			const x0 = Math.floor(sx);
+			const y0 = Math.floor(sy);
+			const x1 = Math.min(x0 + 1, width - 1);
+			const y1 = Math.min(y0 + 1, height - 1);
+			const fx = sx - x0;
+			const fy = sy - y0;
+
+			const i00 = (y0 * width + x0) * 4;
+			const i10 = (y0 * width + x1) * 4;
+			const i01 = (y1 * width + x0) * 4;
+			const i11 = (y1 * width + x1) * 4;
+			const dst = (y * outWidth + x) * 4;
+
+			for (let c = 0; c < 4; c++) {
+				const top = data[i00 + c] * (1 - fx) + data[i10 + c] * fx;
+				const bottom = data[i01 + c] * (1 - fx) + data[i11 + c] * fx;
+				out[dst + c] = Math.round(top * (1 - fy) + bottom * fy);
+			}
+		}
+	}
+
+	return { data: out, width: outWidth, height: outHeight };
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+interface InkPoints {
+	xs: Float32Array;
+	ys: Float32Array;
+	count: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Downsample to grayscale and collect dark pixel coordinates using an Otsu threshold
+ */
+function collectInk(image: RgbaImage): InkPoints | null {
+	const { data, width, height } = image;
+	const step = Math.max(1, Math.ceil(Math.max(width, height) / ANALYSIS_MAX_DIMENSION));
+	const w = Math.floor(width / step);
+	const h = Math.floor(height / step);
+	if (w < 16 || h < 16) return null;
+
+	const gray = new Uint8Array(w * h);
+	const histogram = new Uint32Array(256);
+
+	for (let y = 0; y < h; y++) {
+		for (let x = 0; x < w; x++) {
+			// Box average over the step x step block
+			let sum = 0;
+			for (let by = 0; by < step; by++) {
+				for (let bx = 0; bx < step; bx++) {
+					const i = ((y * step + by) * width + (x * step + bx)) * 4;
+					sum += data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+				}
+			}
+			const value = Math.round(sum / (step * step));
+			gray[y * w + x] = value;
+			histogram[value]++;
+		}
+	}
+
+	const threshold = otsuThreshold(histogram, w * h);
+
+	let count = 0;
+	for (let i = 0; i < gray.length; i++) {
+		if (gray[i] < threshold) count++;
+	}
+
+	const ratio = count / gray.length;
+	if (ratio < MIN_INK_RATIO || ratio > MAX_INK_RATIO) return null;
+
+	const xs = new Float32Array(count);
+	const ys = new Float32Array(count);
+	let n = 0;
+	for (let y = 0; y < h; y++) {
+		for (let x = 0; x < w; x++) {
+			if (gray[y * w + x] < threshold) {
+				xs[n] = x;
+				ys[n] = y;
+				n++;
+			}
+		}
+	}
+
+	return { xs, ys, count, width: w, height: h };
+}
+
+function otsuThreshold(histogram: Uint32Array, total: number): number {
+	let sumAll = 0;
+	for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+	let sumBackground = 0;
+	let weightBackground = 0;
+	let bestVariance = 0;
+	let threshold = 128;
+
+	for (let i = 0; i < 256; i++) {
+		weightBackground += histogram[i];
+		if (weightBackground === 0) continue;
+		const weightForeground = total - weightBackground;
+		if (weightForeground === 0) break;
+
+		sumBackground += i * histogram[i];
+		const meanBackground = sumBackground / weightBackground;
+		const meanForeground = (sumAll - sumBackground) / weightForeground;
+		const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+		if (variance > bestVariance) {
+			bestVariance = variance;
+			threshold = i + 1;
+		}
+	}
+
+	return threshold;
+}
+
+/**
+ * Row histogram of ink projected along lines tilted by `angle` degrees.
+ * When the angle matches the text skew, every line collapses onto a few bins.
+ */
+function projectRows(points: InkPoints, angle: number): Float64Array {
+	const radians = (angle * Math.PI) / 180;
+	const cos = Math.cos(radians);
+	const sin = Math.sin(radians);
+	const offset = points.width;
+	const profile = new Float64Array(points.height + points.width * 2 + 1);
+
+	for (let i = 0; i < points.count; i++) {
+		const bin = Math.round(points.ys[i] * cos - points.xs[i] * sin) + offset;
+		if (bin >= 0 && bin < profile.length) profile[bin]++;
+	}
+
+	return profile;
+}
+
+// Sum of squares - peaks when ink is concentrated in few bins
+function profileScore(profile: Float64Array): number {
+	let score = 0;
+	for (let i = 0; i < profile.length; i++) score += profile[i] * profile[i];
+	return score;
+}
+
+function transpose(points: InkPoints): InkPoints {
+	return { ...points, xs: points.ys, ys: points.xs, width: points.height, height: points.width };
+}
+
+// Rotate ink coordinates 90 degrees clockwise
+function rotatePoints90(points: InkPoints): InkPoints {
+	const xs = new Float32Array(points.count);
+	const ys = new Float32Array(points.count);
+	for (let i = 0; i < points.count; i++) {
+		xs[i] = points.height - 1 - points.ys[i];
+		ys[i] = points.xs[i];
+	}
+	return { xs, ys, count: points.count, width: points.height, height: points.width };
+}
+
+function estimateSkew(points: InkPoints): number {
+	let best = 0;
+	let bestScore = profileScore(projectRows(points, 0));
+
+	// Coarse search, then refine around the best coarse angle
+	for (let angle = -MAX_SKEW_ANGLE; angle <= MAX_SKEW_ANGLE; angle += 1) {
+		const score = profileScore(projectRows(points, angle));
+		if (score > bestScore) {
+			bestScore = score;
+			best = angle;
+		}
+	}
+
+	const coarse = best;
+	for (let angle = coarse - 1; angle <= coarse + 1; angle += 0.1) {
+		const score = profileScore(projectRows(points, angle));
+		if (score > bestScore) {
+			bestScore = score;
+			best = angle;
+		}
+	}
+
+	return Math.round(best * 10) / 10;
+}
+
+/**
+ * Latin script has more ink above the x-height band (ascenders, capitals)
+ * than below it (descenders). Flip that around and the page is upside down.
+ */
+function isUpsideDown(points: InkPoints, skew: number): boolean {
+	const profile = projectRows(points, skew);
+
+	let peak = 0;
+	for (let i = 0; i < profile.length; i++) peak = Math.max(peak, profile[i]);
+	if (peak === 0) return false;
+
+	const lineThreshold = Math.max(1, peak * 0.05);
+	let above = 0;
+	let below = 0;
+	let lines = 0;
+
+	let i = 0;
+	while (i < profile.length) {
+		if (profile[i] < lineThreshold) {
+			i++;
+			continue;
+		}
+
+		// Text line spans [top, bottom)
+		const top = i;
+		let linePeak = 0;
+		while (i < profile.length && profile[i] >= lineThreshold) {
+			linePeak = Math.max(linePeak, profile[i]);
+			i++;
+		}
+		const bottom = i;
+		if (bottom - top < 4) continue;
+
+		// x-height band: rows carrying a good share of the line's peak ink
+		let coreTop = top;
+		while (profile[coreTop] < linePeak * 0.3) coreTop++;
+		let coreBottom = bottom - 1;
+		while (profile[coreBottom] < linePeak * 0.3) coreBottom--;
+
+		for (let r = top; r < coreTop; r++) above += profile[r];
+		for (let r = coreBottom + 1; r < bottom; r++) below += profile[r];
+		lines++;
+	}
+
+	return lines >= MIN_TEXT_LINES && below > above * UPSIDE_DOWN_RATIO;
+}
+
+/**
+ * Detect and correct page rotation and skew
+ */
+export function correctOrientation(
+	image: RgbaImage,
+	options: OrientationOptions
+): OrientationResult {
+	const manual = options.rotation !== undefined;
+	if (!manual && !options.autoRotate && !options.deskew) {
+		return { image, rotation: 0, rotationSource: null, skewAngle: 0 };
+	}
+
+	let rotation: Rotation = options.rotation ?? 0;
+	let oriented = rotateClockwise(image, rotation);
+	let skewAngle = 0;
+
+	const ink = collectInk(oriented);
+	if (ink) {
+		let points = ink;
+
+		// Text lines run vertically - turn the page on its side before measuring skew
+		if (!manual && options.autoRotate) {
+			const rowScore = profileScore(projectRows(points, 0));
+			const columnScore = profileScore(projectRows(transpose(points), 0));
+			if (columnScore > rowScore * VERTICAL_TEXT_RATIO) {
+				rotation = 90;
+				points = rotatePoints90(points);
+			}
+		}
+
+		const skew = options.deskew ? estimateSkew(points) : 0;
+
+		if (!manual && options.autoRotate && isUpsideDown(points, skew)) {
+			rotation = rotation === 90 ? 270 : 180;
+		}
+
+		// Lines sloping down by `skew` degrees are straightened by turning them back.
+		// A further 180 degree turn keeps the slope, so the angle still applies.
+		if (Math.abs(skew) >= MIN_SKEW_ANGLE) {
+			skewAngle = -skew;
+		}
+
+		if (rotation !== (options.rotation ?? 0)) {
+			oriented = rotateClockwise(image, rotation);
+		}
+	}
+
+	if (skewAngle !== 0) {
+		oriented = rotateByAngle(oriented, skewAngle);
+	}
+
+	return {
+		image: oriented,
+		rotation,
+		rotationSource: manual ? 'manual' : rotation !== 0 ? 'auto' : null,
+		skewAngle
+	};
+}
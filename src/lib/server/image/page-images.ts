@@ -0,0 +1,89 @@
+/**
+ * Server-rendered page images
+ *
+ * What the PDF and multi-frame image renderers share: picking the pages to render and
+ * encoding them to the JPEG page images the upload page would have uploaded.
+ *
+ * Only imported by the OCRSession Durable Object: the WASM module is resolved by
+ * wrangler at deploy time and is not bundled into the SvelteKit app.
+ */
+
+import { PhotonImage, SamplingFilter, resize } from '@cf-wasm/photon';
+import { parsePageRange } from '../../utils/page-range';
+
+export interface PageRenderOptions {
+	maxDimension: number; // Longest side of a page image, pages are never enlarged
+	quality?: number; // JPEG quality (1-100)
+	maxPages?: number; // Refuse longer selections before rendering anything
+	pageRange?: string | null; // Only render these pages, like "1-3,7,10-"
+}
+
+export interface RenderedPage {
+	pageNumber: number; // In the document, not in the selection
+	bytes: Uint8Array;
+	width: number;
+	height: number;
+	text: string; // Embedded text layer, empty for scanned pages and images
+}
+
+/**
+ * Thrown when the pages asked for do not fit the document or the page limit
+ */
+export class PageSelectionError extends Error {
+	readonly pageCount: number; // Pages of the document
+
+	constructor(message: string, pageCount: number) {
+		super(message);
+		this.name = 'PageSelectionError';
+		this.pageCount = pageCount;
+	}
+}
+
+/**
+ * Page numbers to render, checked against the document and the page limit
+ */
+export function selectPages(pageCount: number, options: PageRenderOptions): number[] {
+	let pages: number[];
+	try {
+		pages = options.pageRange
+			? parsePageRange(options.pageRange, pageCount)
+			: Array.from({ length: pageCount }, (_, index) => index + 1);
+	} catch (error) {
+		throw new PageSelectionError((error as Error).message, pageCount);
+	}
+
+	if (options.maxPages !== undefined && pages.length > options.maxPages) {
+		const selected = options.pageRange
+			? `${pages.length} pages are selected`
+			: `The document has ${pageCount} pages`;
+		throw new PageSelectionError(
+			`${selected}, the limit for your plan is ${options.maxPages}`,
+			pageCount
+		);
+	}
+
+	return pages;
+}
+
+/**
+ * JPEG from RGBA pixels, scaled to the given size when it differs
+ */
+export function encodeJpeg(
+	data: Uint8Array,
+	width: number,
+	height: number,
+	quality: number,
+	target: { width: number; height: number } = { width, height }
+): Uint8Array {
+	let image = new PhotonImage(data, width, height);
+	try {
+		if (target.width !== width || target.height !== height) {
+			const resized = resize(image, target.width, target.height, SamplingFilter.CatmullRom);
+			image.free();
+			image = resized;
+		}
+		return image.get_bytes_jpeg(quality);
+	} finally {
+		image.free();
+	}
+}
@@ -0,0 +1,91 @@
+/**
+ * Server-side PDF page rendering
+ *
+ * Renders the pages of a PDF to JPEG images with the PDFium WASM library, sized like
+ * the pages the upload page renders in the browser with pdf.js, and reads their embedded
+ * text, so PDFs sent to the REST API go through the same multi-page OCR as uploaded ones.
+ *
+ * Only imported by the OCRSession Durable Object: the WASM modules are resolved by
+ * wrangler at deploy time and are not bundled into the SvelteKit app.
+ */
+
+import { PDFiumLibrary } from '@hyzyla/pdfium';
+import pdfiumWasm from '@hyzyla/pdfium/pdfium.wasm';
+import { encodeJpeg, selectPages, type PageRenderOptions, type RenderedPage } from './page-images';
+
+let library: ReturnType<typeof PDFiumLibrary.init> | null = null;
+
+/**
+ * PDFium, instantiated once per isolate from the module compiled by wrangler
+ */
+function loadLibrary() {
+	library ??= PDFiumLibrary.init({
+		instantiateWasm: (imports, receiveInstance) => {
+			const instance = new WebAssembly.Instance(pdfiumWasm, imports);
+			// Emscripten is handed the instance here, whatever the types say
+			receiveInstance(instance as unknown as WebAssembly.Module);
+			return instance.exports;
+		}
+	}).catch((error) => {
+		library = null;
+		throw error;
+	});
+	return library;
+}
+
+/**
+ * JPEG from the BGRA pixels PDFium renders
+ */
+function encodeBgraJpeg(width: number, height: number, data: Uint8Array, quality: number) {
+	const pixels = new Uint8Array(data);
+	for (let i = 0; i < pixels.length; i += 4) {
+		const blue = pixels[i];
+		pixels[i] = pixels[i + 2];
+		pixels[i + 2] = blue;
+	}
+
+	return encodeJpeg(pixels, width, height, quality);
+}
+
+/**
+ * Render the pages of a PDF one at a time, in order, so only one page image is held at once.
+ * Throws PageSelectionError before the first page when the selection does not fit the
+ * document or has more than options.maxPages pages.
+ */
+export async function* renderPdfPages(
+	bytes: Uint8Array,
+	options: PageRenderOptions
+): AsyncGenerator<RenderedPage> {
+	const pdfium = await loadLibrary();
+	const document = await pdfium.loadDocument(bytes);
+
+	try {
+		const pages = selectPages(document.getPageCount(), options);
+
+		for (const pageNumber of pages) {
+			const page = document.getPage(pageNumber - 1);
+			const { originalWidth, originalHeight } = page.getOriginalSize();
+			const longestSide = Math.max(originalWidth, originalHeight);
+			const scale = longestSide > options.maxDimension ? options.maxDimension / longestSide : 1;
+
+			// Read before rendering, which closes the page
+			const text = page.getText();
+
+			const rendered = await page.render({
+				scale,
+				render: async ({ width, height, data }) =>
+					encodeBgraJpeg(width, height, data, options.quality ?? 90)
+			});
+
+			yield {
+				pageNumber,
+				bytes: rendered.data,
+				width: rendered.width,
+				height: rendered.height,
+				text
+			};
+		}
+	} finally {
+		document.destroy();
+	}
+}
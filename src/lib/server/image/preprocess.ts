@@ -0,0 +1,225 @@
+/**
+ * Server-side image preprocessing for OCR
+ *
+ * Decodes, downscales, straightens, optionally normalizes and re-encodes images
+ * with the Photon WASM library so large, rotated or skewed uploads never reach
+ * the model as-is.
+ *
+ * Only imported by the OCRSession Durable Object: the WASM module is resolved by
+ * wrangler at deploy time and is not bundled into the SvelteKit app.
+ */
+
+import {
+	PhotonImage,
+	SamplingFilter,
+	resize,
+	grayscale_human_corrected,
+	normalize
+} from '@cf-wasm/photon';
+import {
+	applyExifOrientation,
+	correctOrientation,
+	readExifOrientation,
+	type Rotation
+} from './orientation';
+
+export interface PreprocessOptions {
+	maxDimension: number; // Longest side after downscaling
+	grayscale?: boolean; // Drop color information
+	normalizeContrast?: boolean; // Stretch pixel values to the full range
+	quality?: number; // JPEG quality (1-100)
+	autoRotate?: boolean; // Detect pages turned by 90/180/270 degrees
+	deskew?: boolean; // Straighten small skew angles
+	rotation?: Rotation; // Manual clockwise rotation, replaces auto-detection
+}
+
+/**
+ * Orientation corrections applied to an image, recorded in scan metadata
+ */
+export interface ImageCorrections {
+	exifOrientation: number; // EXIF orientation tag (1 = upright)
+	rotation: Rotation; // Clockwise rotation applied after EXIF orientation
+	rotationSource: 'auto' | 'manual' | null;
+	skewAngle: number; // Degrees the content was turned to straighten it
+}
+
+export interface PreprocessResult {
+	bytes: Uint8Array<ArrayBuffer>;
+	mimeType: string;
+	width: number;
+	height: number;
+	originalWidth: number;
+	originalHeight: number;
+	transformed: boolean; // False when the original bytes are returned untouched
+	corrections: ImageCorrections;
+}
+
+/**
+ * Default preprocessing settings
+ * 1024px matches the client-side MAX_IMAGE_DIMENSION used before upload
+ */
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+	maxDimension: 1024,
+	grayscale: false,
+	normalizeContrast: false,
+	quality: 90,
+	autoRotate: true,
+	deskew: true
+};
+
+// Formats every provider accepts as-is
+const PASSTHROUGH_MIME_TYPES = ['image/jpeg', 'image/png'];
+
+/**
+ * Scale dimensions to fit within maxDimension, keeping the aspect ratio
+ */
+export function fitWithin(
+	width: number,
+	height: number,
+	maxDimension: number
+): { width: number; height: number } {
+	if (width <= maxDimension && height <= maxDimension) {
+		return { width, height };
+	}
+
+	const scale = maxDimension / Math.max(width, height);
+	return {
+		width: Math.max(1, Math.round(width * scale)),
+		height: Math.max(1, Math.round(height * scale))
+	};
+}
+
+/**
+ * Decode, downscale, straighten and re-encode an image for OCR.
+ * Throws if the image cannot be decoded; callers should fall back to the original bytes.
+ */
+export function preprocessImage(
+	input: Uint8Array<ArrayBuffer>,
+	mimeType: string,
+	options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): PreprocessResult {
+	let image = PhotonImage.new_from_byteslice(input);
+
+	try {
+		const originalWidth = image.get_width();
+		const originalHeight = image.get_height();
+		const target = fitWithin(originalWidth, originalHeight, options.maxDimension);
+		const needsResize = target.width !== originalWidth || target.height !== originalHeight;
+
+		// Resize first so orientation detection works on the smaller image
+		if (needsResize) {
+			const resized = resize(image, target.width, target.height, SamplingFilter.CatmullRom);
+			image.free();
+			image = resized;
+		}
+
+		const corrections: ImageCorrections = {
+			exifOrientation: readExifOrientation(input),
+			rotation: 0,
+			rotationSource: null,
+			skewAngle: 0
+		};
+
+		if (
+			corrections.exifOrientation !== 1 ||
+			options.autoRotate ||
+			options.deskew ||
+			options.rotation !== undefined
+		) {
+			const pixels = applyExifOrientation(
+				{ data: image.get_raw_pixels(), width: image.get_width(), height: image.get_height() },
+				corrections.exifOrientation
+			);
+			const oriented = correctOrientation(pixels, {
+				autoRotate: options.autoRotate ?? false,
+				deskew: options.deskew ?? false,
+				rotation: options.rotation
+			});
+
+			corrections.rotation = oriented.rotation;
+			corrections.rotationSource = oriented.rotationSource;
+			corrections.skewAngle = oriented.skewAngle;
+
+			if (oriented.image !== pixels || corrections.exifOrientation !== 1) {
+				image.free();
+				image = new PhotonImage(oriented.image.data, oriented.image.width, oriented.image.height);
+			}
+		}
+
+		const reoriented =
+			corrections.exifOrientation !== 1 ||
+			corrections.rotation !== 0 ||
+			corrections.skewAngle !== 0;
+
+		// Nothing to do - skip the lossy re-encode
+		if (
+			!needsResize &&
+			!reoriented &&
+			!options.grayscale &&
+			!options.normalizeContrast &&
+			PASSTHROUGH_MIME_TYPES.includes(mimeType)
+		) {
+			return {
+				bytes: input,
+				mimeType,
+				width: originalWidth,
+				height: originalHeight,
+				originalWidth,
+				originalHeight,
+				transformed: false,
+				corrections
+			};
+		}
+
+		if (options.grayscale) {
+			grayscale_human_corrected(image);
+		}
+
+		if (options.normalizeContrast) {
+			normalize(image);
+		}
+
+		const bytes = image.get_bytes_jpeg(options.quality ?? 90);
+
+		return {
+			bytes: new Uint8Array(bytes),
+			mimeType: 'image/jpeg',
+			width: image.get_width(),
+			height: image.get_height(),
+			originalWidth,
+			originalHeight,
+			transformed: true,
+			corrections
+		};
+	} finally {
+		image.free();
+	}
+}
+
+/**
+ * Environment variables read by resolvePreprocessOptions
+ */
+export interface PreprocessEnv {
+	OCR_IMAGE_MAX_DIMENSION?: string;
+	OCR_IMAGE_GRAYSCALE?: string;
+	OCR_IMAGE_NORMALIZE?: string;
+	OCR_IMAGE_AUTO_ROTATE?: string;
+	OCR_IMAGE_DESKEW?: string;
+}
+
+/**
+ * Build preprocessing options from environment variables, falling back to defaults
+ */
+export function resolvePreprocessOptions(env: PreprocessEnv | undefined): PreprocessOptions {
+	const maxDimension = parseInt(env?.OCR_IMAGE_MAX_DIMENSION || '', 10);
+
+	return {
+		...DEFAULT_PREPROCESS_OPTIONS,
+		maxDimension: maxDimension > 0 ? maxDimension : DEFAULT_PREPROCESS_OPTIONS.maxDimension,
+		grayscale: env?.OCR_IMAGE_GRAYSCALE === 'true',
+		normalizeContrast: env?.OCR_IMAGE_NORMALIZE === 'true',
+		// Orientation fixes are on unless explicitly disabled
+		autoRotate: env?.OCR_IMAGE_AUTO_ROTATE !== 'false',
+		deskew: env?.OCR_IMAGE_DESKEW !== 'false'
+	};
+}
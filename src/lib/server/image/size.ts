@@ -0,0 +1,103 @@
+/**
+ * Image dimensions from file headers
+ *
+ * Reads the pixel size of PNG, JPEG, GIF, WebP and BMP files without decoding them,
+ * for code paths that never load the image library (the REST API runs in the
+ * SvelteKit app, where Photon is not available).
+ */
+
+export interface ImageSize {
+	width: number;
+	height: number;
+}
+
+// JPEG start-of-frame markers, which carry the frame size (C4, C8 and CC are not frames)
+const JPEG_SOF_MARKERS = new Set([
+	0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf
+]);
+
+function readJpegSize(view: DataView): ImageSize | null {
+	let offset = 2;
+
+	while (offset + 9 <= view.byteLength) {
+		if (view.getUint8(offset) !== 0xff) return null;
+		const marker = view.getUint8(offset + 1);
+
+		// Padding before a marker
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+
+		if (JPEG_SOF_MARKERS.has(marker)) {
+			return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+		}
+
+		offset += 2 + view.getUint16(offset + 2);
+	}
+
+	return null;
+}
+
+function readWebpSize(view: DataView): ImageSize | null {
+	const chunk = String.fromCharCode(
+		view.getUint8(12),
+		view.getUint8(13),
+		view.getUint8(14),
+		view.getUint8(15)
+	);
+
+	switch (chunk) {
+		case 'VP8 ':
+			return {
+				width: view.getUint16(26, true) & 0x3fff,
+				height: view.getUint16(28, true) & 0x3fff
+			};
+		case 'VP8L': {
+			const bits = view.getUint32(21, true);
+			return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+		}
+		case 'VP8X':
+			return {
+				width: (view.getUint32(24, true) & 0xffffff) + 1,
+				height: (view.getUint32(27, true) & 0xffffff) + 1
+			};
+		default:
+			return null;
+	}
+}
+
+/**
+ * Pixel size of an image as stored (before EXIF orientation), null for unknown formats
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | null {
+	if (bytes.length < 30) return null;
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let size: ImageSize | null = null;
+
+	try {
+		if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+			// PNG: IHDR is always the first chunk
+			size = { width: view.getUint32(16), height: view.getUint32(20) };
+		} else if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+			size = readJpegSize(view);
+		} else if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+			// GIF: logical screen size
+			size = { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+		} else if (
+			String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+			String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP'
+		) {
+			size = readWebpSize(view);
+		} else if (bytes[0] === 0x42 && bytes[1] === 0x4d) {
+			// BMP: height is negative for top-down bitmaps
+			size = { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+		}
+	} catch {
+		// Truncated header
+		return null;
+	}
+
+	return size && size.width > 0 && size.height > 0 ? size : null;
+}
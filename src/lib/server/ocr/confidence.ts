@@ -0,0 +1,135 @@
+/**
+ * OCR confidence estimate
+ * Scores extracted text between 0 and 1. Token log-probabilities are used when the
+ * backend returns them, blended with heuristics on the text itself: how much of it
+ * looks like words or numbers, how much is garbage, and whether it loops.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import { detectRepetition } from './guard';
+import type { GuardEvent } from './metadata';
+
+// Share of the score taken from log-probabilities when they are available
+const LOGPROB_WEIGHT = 0.6;
+// Each percent of garbage characters costs this many percent of the score
+const GARBAGE_PENALTY = 5;
+const REPETITION_FACTOR = 0.5;
+// Applied when the output guard had to cut a loop or keep commentary on the last attempt
+const GUARD_FACTORS: Record<GuardEvent['action'], number> = {
+	retried: 1,
+	truncated: 0.6,
+	accepted: 0.7
+};
+const MAX_WORD_LENGTH = 24;
+
+// Replacement, private-use, unassigned and control characters (other than whitespace)
+const GARBAGE_CHAR = /[\uFFFD\p{Co}\p{Cn}]|(?![\t\n\r])\p{Cc}/u;
+const EDGE_PUNCTUATION = /^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu;
+const NUMBER = /^[\p{Sc}+-]?\p{N}+([.,:/-]\p{N}+)*[%\p{Sc}]?$/u;
+const WORD = /^\p{L}+(['’.-]\p{L}+)*$/u;
+const CJK = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+$/u;
+const LATIN = /^\p{Script=Latin}+$/u;
+const VOWEL = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüýÿœ]/i;
+
+export interface ConfidenceInput {
+	text: string;
+	logprobs?: number[]; // Token log-probabilities of the final answer, when the backend returns them
+	guard?: Pick<GuardEvent, 'action'>[]; // Output guard events for the page
+}
+
+/**
+ * Whether a whitespace-separated token reads like a word or a number
+ */
+function isWordLike(token: string): boolean {
+	if (NUMBER.test(token) || CJK.test(token)) return true;
+	if (token.length > MAX_WORD_LENGTH || !WORD.test(token)) return false;
+
+	// Case flipping mid-word ("tHe") is a typical misread
+	if (/\p{Ll}\p{Lu}/u.test(token.slice(1))) return false;
+
+	// Latin words without vowels are mostly noise, short ones are abbreviations
+	const letters = token.replace(/['’.-]/g, '');
+	return !LATIN.test(letters) || letters.length <= 3 || VOWEL.test(letters);
+}
+
+/**
+ * Heuristic score from the text alone, null for text that is only punctuation
+ */
+export function textConfidence(text: string): number | null {
+	const tokens = text
+		.split(/\s+/)
+		.map((token) => token.replace(EDGE_PUNCTUATION, ''))
+		.filter(Boolean);
+	if (tokens.length === 0) return null;
+
+	const wordRatio = tokens.filter(isWordLike).length / tokens.length;
+
+	let garbage = 0;
+	let characters = 0;
+	for (const char of text) {
+		if (/\s/.test(char)) continue;
+		characters++;
+		if (GARBAGE_CHAR.test(char)) garbage++;
+	}
+	const garbageRatio = characters > 0 ? garbage / characters : 0;
+
+	let score = wordRatio * Math.max(0, 1 - garbageRatio * GARBAGE_PENALTY);
+	if (detectRepetition(text)) {
+		score *= REPETITION_FACTOR;
+	}
+	return score;
+}
+
+/**
+ * Geometric mean of the token probabilities, null without tokens
+ */
+export function logprobConfidence(logprobs: number[]): number | null {
+	const values = logprobs.filter(Number.isFinite);
+	if (values.length === 0) return null;
+
+	const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+	return Math.exp(Math.min(0, mean));
+}
+
+/**
+ * Confidence of a page's text, null when there is nothing to score
+ */
+export function estimateConfidence({ text, logprobs, guard }: ConfidenceInput): number | null {
+	const heuristic = textConfidence(text);
+	if (heuristic === null) return null;
+
+	const fromLogprobs = logprobs ? logprobConfidence(logprobs) : null;
+	let score =
+		fromLogprobs === null
+			? heuristic
+			: LOGPROB_WEIGHT * fromLogprobs + (1 - LOGPROB_WEIGHT) * heuristic;
+
+	for (const event of guard ?? []) {
+		score *= GUARD_FACTORS[event.action];
+	}
+
+	return roundConfidence(score);
+}
+
+/**
+ * Document confidence from its pages, weighted by the amount of text on each page
+ */
+export function documentConfidence(
+	pages: { text: string | null; confidence: number | null }[]
+): number | null {
+	let weighted = 0;
+	let total = 0;
+
+	for (const page of pages) {
+		if (page.confidence === null || !page.text) continue;
+		weighted += page.confidence * page.text.length;
+		total += page.text.length;
+	}
+
+	return total > 0 ? roundConfidence(weighted / total) : null;
+}
+
+function roundConfidence(score: number): number {
+	return Math.round(Math.min(1, Math.max(0, score)) * 1000) / 1000;
+}
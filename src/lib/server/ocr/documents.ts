@@ -0,0 +1,223 @@
+/**
+ * Questions and summaries over a scanned document
+ * The document's text is sent page by page, each page marked with its number, so the
+ * model can cite the pages it drew from. Documents longer than a prompt can hold are cut
+ * down to the pages that best match the question, or summarized in parts.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import type { OcrProvider } from './providers/types';
+import type { OcrModel } from '../config/models';
+
+export interface DocumentPage {
+	pageNumber: number;
+	text: string;
+}
+
+export interface DocumentAnswer {
+	answer: string;
+	citations: number[]; // Page numbers cited in the answer, ascending
+}
+
+// Page text sent with a single prompt, longer documents are cut or summarized in parts
+const MAX_CONTEXT_LENGTH = 24000;
+// A single page never takes more than this share of the prompt
+const MAX_PAGE_LENGTH = 8000;
+export const MAX_QUESTION_LENGTH = 1000;
+// Prompts a summary takes, longer documents are refused rather than read for minutes
+const MAX_SUMMARY_PARTS = 8;
+// Deadline for answering a question or summarizing a document outside the Durable Object
+export const DOCUMENT_TIMEOUT_MS = 180000;
+
+// Question words that say nothing about where the answer is
+const STOPWORDS = new Set([
+	...'the and for are was were what when where which who why how does did'.split(' '),
+	...'this that these those with from about into document page pages'.split(' ')
+]);
+
+/**
+ * Thrown when a document has more text than a summary can cover
+ */
+export class DocumentLengthError extends Error {
+	constructor() {
+		super('The document is too long to summarize');
+		this.name = 'DocumentLengthError';
+	}
+}
+
+function formatPage(page: DocumentPage): string {
+	const text =
+		page.text.length > MAX_PAGE_LENGTH
+			? `${page.text.slice(0, MAX_PAGE_LENGTH)}\n[...]`
+			: page.text;
+	return `[Page ${page.pageNumber}]\n${text.trim()}`;
+}
+
+function questionTerms(question: string): string[] {
+	const words = question.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+	return [...new Set(words.filter((word) => !STOPWORDS.has(word)))];
+}
+
+/**
+ * Pages to send with a question: all of them when they fit, otherwise the pages that
+ * mention the question's words most, in document order
+ */
+export function selectPages(pages: DocumentPage[], question: string): DocumentPage[] {
+	const withText = pages.filter((page) => page.text.trim());
+	const total = withText.reduce((sum, page) => sum + formatPage(page).length, 0);
+	if (total <= MAX_CONTEXT_LENGTH) return withText;
+
+	const terms = questionTerms(question);
+	const ranked = withText
+		.map((page) => {
+			const text = page.text.toLowerCase();
+			const score = terms.reduce((sum, term) => sum + text.split(term).length - 1, 0);
+			return { page, score };
+		})
+		// Stable sort keeps document order between pages with the same score
+		.sort((a, b) => b.score - a.score);
+
+	const selected: DocumentPage[] = [];
+	let length = 0;
+	for (const { page } of ranked) {
+		const pageLength = formatPage(page).length;
+		if (length + pageLength > MAX_CONTEXT_LENGTH) continue;
+		selected.push(page);
+		length += pageLength;
+	}
+
+	return selected.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+function buildAskPrompt(pages: DocumentPage[], question: string): string {
+	return `Question answering task: Answer the question using ONLY the document pages below. Each page starts with a [Page N] marker. After each statement, cite the pages it comes from like [p. 3] or [p. 2, 5]. If the pages do not contain the answer, say so. Answer in the language of the question.
+
+Document pages:
+"""
+${pages.map(formatPage).join('\n\n')}
+"""
+
+Question: ${question}`;
+}
+
+function buildSummaryPrompt(pages: DocumentPage[]): string {
+	return `Summary task: Summarize the document pages below in a short paragraph or a few bullet points, in the language of the document. Cover what the document is, who it concerns and its key facts, figures and dates. Output ONLY the summary.
+
+Document pages:
+"""
+${pages.map(formatPage).join('\n\n')}
+"""`;
+}
+
+function buildCombinePrompt(summaries: string[]): string {
+	return `Summary task: The text below holds summaries of consecutive parts of one document. Combine them into a single short summary of the whole document, in its language. Output ONLY the summary.
+
+Part summaries:
+"""
+${summaries.join('\n\n')}
+"""`;
+}
+
+/**
+ * Page numbers cited in an answer, e.g. "[p. 3]", "[pp. 2, 5]" or "[p. 4-6]", limited to
+ * pages the document has
+ */
+export function parseCitations(answer: string, pageNumbers: number[]): number[] {
+	const known = new Set(pageNumbers);
+	const cited = new Set<number>();
+
+	for (const match of answer.matchAll(/\[(?:pp?|pages?)\.?\s*([\d\s,–-]+)\]/gi)) {
+		for (const part of match[1].split(',')) {
+			const [start, end] = part.split(/[–-]/).map((n) => Number.parseInt(n.trim(), 10));
+			if (Number.isNaN(start)) continue;
+			// Ranges are expanded, with a cap against "[p. 1-9999]"
+			const last = end === undefined || Number.isNaN(end) ? start : Math.min(end, start + 50);
+			for (let page = start; page <= last; page++) {
+				if (known.has(page)) cited.add(page);
+			}
+		}
+	}
+
+	return [...cited].sort((a, b) => a - b);
+}
+
+/**
+ * Answer a question about a document, passing the answer on as it is generated
+ */
+export async function askDocument(
+	provider: OcrProvider,
+	model: OcrModel,
+	pages: DocumentPage[],
+	question: string,
+	options: { signal?: AbortSignal; onChunk?: (text: string) => void } = {}
+): Promise<DocumentAnswer> {
+	const selected = selectPages(pages, question);
+	if (selected.length === 0) {
+		throw new Error('The document has no text to answer from');
+	}
+
+	let answer = '';
+	for await (const chunk of provider.stream({
+		model: model.id,
+		prompt: buildAskPrompt(selected, question),
+		options: model.options,
+		signal: options.signal
+	})) {
+		answer += chunk;
+		options.onChunk?.(chunk);
+	}
+
+	const pageNumbers = selected.map((page) => page.pageNumber);
+	answer = answer.trim();
+	return { answer, citations: parseCitations(answer, pageNumbers) };
+}
+
+/**
+ * Short summary of a document. Long documents are summarized in parts of consecutive
+ * pages, and the part summaries combined. Throws DocumentLengthError for documents of more
+ * than MAX_SUMMARY_PARTS parts.
+ */
+export async function summarizeDocument(
+	provider: OcrProvider,
+	model: OcrModel,
+	pages: DocumentPage[],
+	signal?: AbortSignal
+): Promise<string> {
+	const withText = pages.filter((page) => page.text.trim());
+	if (withText.length === 0) {
+		throw new Error('The document has no text to summarize');
+	}
+
+	const parts: DocumentPage[][] = [[]];
+	let length = 0;
+	for (const page of withText) {
+		const pageLength = formatPage(page).length;
+		if (length + pageLength > MAX_CONTEXT_LENGTH && parts[parts.length - 1].length > 0) {
+			parts.push([]);
+			length = 0;
+		}
+		parts[parts.length - 1].push(page);
+		length += pageLength;
+	}
+	if (parts.length > MAX_SUMMARY_PARTS) {
+		throw new DocumentLengthError();
+	}
+
+	const generate = async (prompt: string) =>
+		(await provider.generate({ model: model.id, prompt, options: model.options, signal })).trim();
+
+	if (parts.length === 1) {
+		return generate(buildSummaryPrompt(parts[0]));
+	}
+
+	// Parts one after another, the pool already spreads work across endpoints
+	const summaries: string[] = [];
+	for (const part of parts) {
+		const first = part[0].pageNumber;
+		const last = part[part.length - 1].pageNumber;
+		summaries.push(`Pages ${first}-${last}: ${await generate(buildSummaryPrompt(part))}`);
+	}
+
+	return generate(buildCombinePrompt(summaries));
+}
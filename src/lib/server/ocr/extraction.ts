@@ -0,0 +1,453 @@
+/**
+ * Structured field extraction
+ * Turns a scan's text into a JSON object described by a user-supplied JSON Schema.
+ * The schema is converted to a zod validator, the model is asked for JSON, and an
+ * answer that does not validate is sent back with the errors for a repair attempt.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import { z } from 'zod';
+import type { OcrProvider } from './providers/types';
+import type { OcrModel } from '../config/models';
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+type JsonValue = string | number | boolean | null;
+
+/**
+ * The subset of JSON Schema understood by the extractor
+ */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	enum?: JsonValue[];
+	const?: JsonValue;
+	anyOf?: JsonSchema[];
+	nullable?: boolean; // OpenAPI style, same as adding "null" to the types
+	format?: string;
+	pattern?: string;
+	minLength?: number;
+	maxLength?: number;
+	minimum?: number;
+	maximum?: number;
+	minItems?: number;
+	maxItems?: number;
+}
+
+export type ExtractedData = Record<string, unknown>;
+
+export interface ExtractionResult {
+	data: ExtractedData | null; // Validated object, null when every attempt failed
+	error: string | null; // Why the last attempt failed
+	attempts: number;
+}
+
+// First attempt plus repairs
+const MAX_EXTRACTION_ATTEMPTS = 3;
+const MAX_SCHEMA_LENGTH = 20000;
+const MAX_SCHEMA_DEPTH = 8;
+// Patterns are run against the model's answers, so they are kept short and simple
+const MAX_PATTERN_LENGTH = 200;
+// Longer answers are refused without running the pattern, when the schema sets no lower maxLength
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+// Longer documents are cut to keep the prompt within the model's context
+const MAX_TEXT_LENGTH = 30000;
+// Validation errors listed in a repair prompt
+const MAX_REPAIR_ISSUES = 20;
+
+const TYPES: JsonSchemaType[] = [
+	'object',
+	'array',
+	'string',
+	'number',
+	'integer',
+	'boolean',
+	'null'
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Quantifier at the start of a pattern fragment, like *, +, ?, {2} or {1,3}, and its lazy ?
+const QUANTIFIER_PATTERN = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/;
+
+// Escapes that match a class of characters or a position rather than one character
+const CLASS_ESCAPES = 'dDwWsSbB';
+
+type QuantifierKind = 'exact' | 'bounded' | 'unbounded';
+
+/**
+ * The quantifier at the start of a pattern fragment and how far it lets what it follows
+ * repeat: an exact count, a bounded range like ? or {1,3}, or without limit like * or {2,}
+ */
+function readQuantifier(fragment: string): { kind: QuantifierKind; length: number } | null {
+	const quantifier = fragment.match(QUANTIFIER_PATTERN);
+	if (!quantifier) return null;
+
+	const [text, min, range, max] = quantifier;
+	const kind: QuantifierKind =
+		text[0] === '*' || text[0] === '+' || max === ''
+			? 'unbounded'
+			: text[0] === '?' || (range !== undefined && max !== min)
+				? 'bounded'
+				: 'exact';
+	return { kind, length: text.length };
+}
+
+function isVariable(quantifier: { kind: QuantifierKind } | null): boolean {
+	return !!quantifier && quantifier.kind !== 'exact';
+}
+
+/**
+ * Why a pattern is refused, null when it is accepted. Patterns run on the model's answers in
+ * the OCRSession Durable Object, where a slow match blocks the scan, so only simple ones are
+ * taken: no backreferences, no group repeated without limit that holds a variable quantifier
+ * or an alternation, like (a+)+ or (a|ab)*, and no two variable quantifiers without a
+ * literal character between them, like \s*\s* or \d+\w+. Fixed repeats like
+ * (\d{1,3}\.){3} are fine.
+ */
+function unsafePatternReason(pattern: string): string | null {
+	if (pattern.length > MAX_PATTERN_LENGTH) {
+		return `longer than ${MAX_PATTERN_LENGTH} characters`;
+	}
+
+	// Per open group: whether it holds a variable quantifier or an alternation
+	const groups: { quantified: boolean; alternation: boolean }[] = [
+		{ quantified: false, alternation: false }
+	];
+	// Whether a variable quantifier came since the last character that must match
+	let pendingQuantifier = false;
+	let index = 0;
+	while (index < pattern.length) {
+		const char = pattern[index];
+		const group = groups[groups.length - 1];
+		const quantifier = readQuantifier(pattern.slice(index));
+
+		if (char === '\\') {
+			if (/^\\(?:[1-9]|k<)/.test(pattern.slice(index))) return 'backreferences are not supported';
+			const literal = !CLASS_ESCAPES.includes(pattern[index + 1] ?? '');
+			index += 2;
+			if (literal && !isVariable(readQuantifier(pattern.slice(index)))) {
+				pendingQuantifier = false;
+			}
+		} else if (char === '[') {
+			// Character class, up to its closing bracket
+			index++;
+			while (index < pattern.length && pattern[index] !== ']') {
+				index += pattern[index] === '\\' ? 2 : 1;
+			}
+			index++;
+		} else if (char === '(') {
+			groups.push({ quantified: false, alternation: false });
+			// Skip the ? of (?:, (?= and the like
+			index += pattern[index + 1] === '?' ? 2 : 1;
+		} else if (char === ')') {
+			if (groups.length === 1) return null; // Unbalanced, left to the RegExp constructor
+			const closed = groups.pop()!;
+			index++;
+			const repeat = readQuantifier(pattern.slice(index));
+			if (repeat?.kind === 'unbounded' && (closed.quantified || closed.alternation)) {
+				return 'groups repeated without limit cannot hold quantifiers or alternatives';
+			}
+			const parent = groups[groups.length - 1];
+			parent.quantified ||= closed.quantified;
+			parent.alternation ||= closed.alternation;
+		} else if (quantifier) {
+			if (isVariable(quantifier)) {
+				if (pendingQuantifier) {
+					return 'variable quantifiers must be separated by a literal character';
+				}
+				pendingQuantifier = true;
+				group.quantified = true;
+			}
+			index += quantifier.length;
+		} else {
+			if (char === '|') group.alternation = true;
+			index++;
+			if (!'^$.|'.includes(char) && !isVariable(readQuantifier(pattern.slice(index)))) {
+				pendingQuantifier = false;
+			}
+		}
+	}
+
+	return null;
+}
+
+function stringValidator(schema: JsonSchema, path: string): z.ZodType {
+	let validator: z.ZodString | z.ZodType;
+
+	switch (schema.format) {
+		case 'date':
+			validator = z.iso.date();
+			break;
+		case 'date-time':
+			validator = z.iso.datetime({ offset: true, local: true });
+			break;
+		case 'email':
+			validator = z.email();
+			break;
+		default: {
+			let string = z.string();
+			if (schema.minLength !== undefined) string = string.min(schema.minLength);
+			if (schema.maxLength !== undefined) string = string.max(schema.maxLength);
+			if (schema.pattern !== undefined) {
+				const unsafe = unsafePatternReason(schema.pattern);
+				if (unsafe) {
+					throw new Error(`${path}: unsupported pattern "${schema.pattern}", ${unsafe}`);
+				}
+				let regex: RegExp;
+				try {
+					regex = new RegExp(schema.pattern);
+				} catch {
+					throw new Error(`${path}: invalid pattern "${schema.pattern}"`);
+				}
+				// Bounds the time a match can take, whatever the pattern
+				const inputLimit = Math.min(schema.maxLength ?? Infinity, MAX_PATTERN_INPUT_LENGTH);
+				string = string.refine((value) => value.length <= inputLimit && regex.test(value), {
+					message: `Must match the pattern ${schema.pattern} and be at most ${inputLimit} characters`
+				});
+			}
+			validator = string;
+		}
+	}
+
+	return validator;
+}
+
+function typeValidator(type: JsonSchemaType, schema: JsonSchema, path: string, depth: number) {
+	switch (type) {
+		case 'string':
+			return stringValidator(schema, path);
+		case 'number':
+		case 'integer': {
+			let number = type === 'integer' ? z.number().int() : z.number();
+			if (schema.minimum !== undefined) number = number.min(schema.minimum);
+			if (schema.maximum !== undefined) number = number.max(schema.maximum);
+			return number;
+		}
+		case 'boolean':
+			return z.boolean();
+		case 'null':
+			return z.null();
+		case 'array': {
+			let array = z.array(schema.items ? toZod(schema.items, `${path}[]`, depth + 1) : z.unknown());
+			if (schema.minItems !== undefined) array = array.min(schema.minItems);
+			if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+			return array;
+		}
+		case 'object': {
+			if (!schema.properties) return z.record(z.string(), z.unknown());
+
+			const required = new Set(schema.required ?? []);
+			const shape: Record<string, z.ZodType> = {};
+			for (const [key, property] of Object.entries(schema.properties)) {
+				const validator = toZod(property, path ? `${path}.${key}` : key, depth + 1);
+				// Models tend to answer null for optional fields the document does not have
+				shape[key] = required.has(key) ? validator : validator.nullish();
+			}
+			// Unknown keys are dropped unless the schema allows them
+			return schema.additionalProperties === true ? z.looseObject(shape) : z.object(shape);
+		}
+		default:
+			throw new Error(`${path || 'schema'}: unsupported type "${type}"`);
+	}
+}
+
+function toZod(schema: JsonSchema, path: string, depth: number): z.ZodType {
+	const at = path || 'schema';
+	if (!isPlainObject(schema)) throw new Error(`${at}: expected a schema object`);
+	if (depth > MAX_SCHEMA_DEPTH) throw new Error(`${at}: nested deeper than ${MAX_SCHEMA_DEPTH}`);
+
+	let validator: z.ZodType;
+
+	if (schema.const !== undefined) {
+		validator = z.literal(schema.const as JsonValue);
+	} else if (schema.enum) {
+		if (!Array.isArray(schema.enum) || schema.enum.length === 0) {
+			throw new Error(`${at}: enum must be a non-empty array`);
+		}
+		validator = z.literal(schema.enum);
+	} else if (schema.anyOf) {
+		if (!Array.isArray(schema.anyOf) || schema.anyOf.length === 0) {
+			throw new Error(`${at}: anyOf must be a non-empty array`);
+		}
+		const options = schema.anyOf.map((option) => toZod(option, path, depth + 1));
+		validator = options.length === 1 ? options[0] : z.union(options);
+	} else {
+		// A schema with properties but no type is an object, one with nothing is anything
+		const types = Array.isArray(schema.type)
+			? schema.type
+			: [schema.type ?? (schema.properties ? 'object' : undefined)];
+		if (types[0] === undefined) return z.unknown();
+
+		for (const type of types) {
+			if (!TYPES.includes(type as JsonSchemaType)) {
+				throw new Error(`${at}: unsupported type "${type}"`);
+			}
+		}
+		const options = (types as JsonSchemaType[]).map((type) =>
+			typeValidator(type, schema, path, depth)
+		);
+		validator = options.length === 1 ? options[0] : z.union(options);
+	}
+
+	return schema.nullable ? validator.nullable() : validator;
+}
+
+/**
+ * Zod validator for a JSON Schema, throws on schemas outside the supported subset
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodType {
+	return toZod(schema, '', 0);
+}
+
+/**
+ * Check a schema submitted with a scan, throws with a message fit for the caller
+ */
+export function parseJsonSchema(value: unknown): JsonSchema {
+	if (typeof value === 'string') {
+		try {
+			value = JSON.parse(value);
+		} catch {
+			throw new Error('Schema is not valid JSON');
+		}
+	}
+
+	if (!isPlainObject(value)) {
+		throw new Error('Schema must be a JSON Schema object');
+	}
+	if (JSON.stringify(value).length > MAX_SCHEMA_LENGTH) {
+		throw new Error(`Schema is too large (maximum ${MAX_SCHEMA_LENGTH} characters)`);
+	}
+
+	const schema = value as JsonSchema;
+	if ((schema.type ?? (schema.properties ? 'object' : undefined)) !== 'object') {
+		throw new Error('Schema must describe an object (type "object")');
+	}
+
+	jsonSchemaToZod(schema);
+	return schema;
+}
+
+/**
+ * Parse a JSON Schema column value, tolerating null and invalid values
+ */
+export function parseStoredSchema(value: unknown): JsonSchema | null {
+	try {
+		return value === null || value === undefined ? null : parseJsonSchema(value);
+	} catch {
+		return null;
+	}
+}
+
+function buildExtractionPrompt(text: string, schema: JsonSchema): string {
+	const documentText =
+		text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}\n[...]` : text;
+
+	return `Extraction task: Fill in the fields described by the JSON Schema below from the document text. Rules: Output ONLY a JSON object that matches the schema. Do NOT wrap it in a code block or add commentary. Copy values as they appear in the document, give numbers as JSON numbers, and use null for optional fields the document does not contain. Do NOT invent values.
+
+JSON Schema:
+${JSON.stringify(schema, null, 2)}
+
+Document text:
+"""
+${documentText}
+"""`;
+}
+
+function buildRepairPrompt(
+	text: string,
+	schema: JsonSchema,
+	answer: string,
+	issues: string[]
+): string {
+	return `${buildExtractionPrompt(text, schema)}
+
+Your previous answer did not match the schema:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Previous answer:
+${answer}
+
+Output the corrected JSON object only.`;
+}
+
+/**
+ * JSON object in a model answer, tolerating code fences and text around it
+ */
+export function parseJsonAnswer(answer: string): unknown {
+	const fenced = answer.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+	const body = fenced ? fenced[1] : answer;
+	const start = body.indexOf('{');
+	const end = body.lastIndexOf('}');
+	if (start === -1 || end < start) {
+		throw new Error('Answer does not contain a JSON object');
+	}
+	return JSON.parse(body.slice(start, end + 1));
+}
+
+function formatIssues(error: z.ZodError): string[] {
+	return error.issues
+		.slice(0, MAX_REPAIR_ISSUES)
+		.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Extract the schema's fields from a document's text, retrying with a repair prompt
+ * when the answer is not valid JSON or does not validate
+ */
+export async function extractFields(
+	provider: OcrProvider,
+	model: OcrModel,
+	text: string,
+	schema: JsonSchema,
+	signal?: AbortSignal
+): Promise<ExtractionResult> {
+	const validator = jsonSchemaToZod(schema);
+	let prompt = buildExtractionPrompt(text, schema);
+	let error: string | null = null;
+	let attempts = 0;
+
+	while (attempts < MAX_EXTRACTION_ATTEMPTS) {
+		attempts++;
+
+		let answer: string;
+		try {
+			answer = await provider.generate({
+				model: model.id,
+				prompt,
+				options: { ...model.options, temperature: 0 },
+				jsonSchema: schema as Record<string, unknown>,
+				signal
+			});
+		} catch (err) {
+			// Backend failures already went through the pool's retries
+			return {
+				data: null,
+				error: err instanceof Error ? err.message : 'Extraction request failed',
+				attempts
+			};
+		}
+
+		let issues: string[];
+		try {
+			const result = validator.safeParse(parseJsonAnswer(answer));
+			if (result.success) {
+				return { data: result.data as ExtractedData, error: null, attempts };
+			}
+			issues = formatIssues(result.error);
+		} catch (err) {
+			issues = [err instanceof Error ? err.message : 'Answer is not valid JSON'];
+		}
+
+		error = `Answer did not match the schema: ${issues.join('; ')}`;
+		prompt = buildRepairPrompt(text, schema, answer, issues);
+	}
+
+	return { data: null, error, attempts };
+}
@@ -0,0 +1,112 @@
+/**
+ * Output formats
+ * A scan's text is plain text, Markdown or an HTML fragment. Each format has its own
+ * prompt instructions and a cleanup pass for what the model sends back.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import { htmlToText, sanitizeHtml, escapeHtml } from '../../utils/html';
+
+export const OUTPUT_FORMATS = ['text', 'markdown', 'html'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'text';
+
+// Appended to the base prompt, plain text needs nothing extra
+export const FORMAT_INSTRUCTIONS: Record<OutputFormat, string | null> = {
+	text: null,
+	markdown: `Format the output as Markdown that mirrors the document's layout: # headings for titles and section headings, "-" or "1." lists, **bold** and *italic* where the text is emphasized, and pipe tables with a header separator row for tables. Do NOT wrap the output in a code block.`,
+	html: `Format the output as an HTML fragment that mirrors the document's layout: <h1>-<h6> for headings, <p> for paragraphs, <ul>/<ol>/<li> for lists, <strong> and <em> for emphasis, and <table> with <tr>, <th> and <td> for tables. Output only the fragment, without <html>, <head> or <body>, styles, scripts or attributes, and do NOT wrap it in a code block.`
+};
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+	return OUTPUT_FORMATS.includes(value as OutputFormat);
+}
+
+/**
+ * Remove a code fence wrapped around the whole answer
+ */
+function stripCodeFence(text: string): string {
+	const fenced = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+	return fenced ? fenced[1] : text;
+}
+
+function cleanupMarkdown(text: string): string {
+	return text
+		.split('\n')
+		.map((line) => {
+			const trimmed = line.trimEnd();
+			// "##Heading" -> "## Heading"
+			const heading = trimmed.match(/^(#{1,6})([^#\s].*)$/);
+			if (heading) return `${heading[1]} ${heading[2]}`;
+			// Table rows missing their closing pipe
+			if (/^\|.*[^|]$/.test(trimmed) && trimmed.split('|').length > 2) return `${trimmed} |`;
+			return trimmed;
+		})
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n');
+}
+
+function cleanupHtml(text: string): string {
+	// Keep just the body of a full document
+	const body = text.match(/<body[^>]*>([\s\S]*?)(<\/body>|$)/i);
+	let html = (body ? body[1] : text).replace(/<!doctype[^>]*>/gi, '');
+
+	// The model answered in plain text - wrap its paragraphs
+	if (!/<[a-z][\w-]*[^>]*>/i.test(html)) {
+		html = html
+			.split(/\n\s*\n/)
+			.map((block) => block.trim())
+			.filter(Boolean)
+			.map((block) => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+			.join('\n');
+	}
+
+	return sanitizeHtml(html)
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Validate and tidy a model answer for its output format
+ */
+export function cleanupOutput(text: string, format: OutputFormat): string {
+	const unwrapped = stripCodeFence(text);
+
+	switch (format) {
+		case 'markdown':
+			return cleanupMarkdown(unwrapped).trim();
+		case 'html':
+			return cleanupHtml(unwrapped).trim();
+		default:
+			return unwrapped.trim();
+	}
+}
+
+/**
+ * Text without markup, for confidence scoring and language detection
+ */
+export function toPlainText(text: string, format: OutputFormat): string {
+	switch (format) {
+		case 'markdown':
+			return text
+				.split('\n')
+				.filter((line) => !/^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line.trim()))
+				.map((line) =>
+					line
+						.trim()
+						.replace(/^#{1,6}\s+/, '')
+						.replace(/^([-*+]|\d+[.)])\s+/, '')
+						.replace(/^\|\s*|\s*\|$/g, '')
+						.replace(/\s*\|\s*/g, '\t')
+						.replace(/\*\*|__|`/g, '')
+				)
+				.join('\n');
+		case 'html':
+			return htmlToText(text);
+		default:
+			return text;
+	}
+}
@@ -0,0 +1,199 @@
+/**
+ * Output guard for OCR text
+ * Watches model output as it streams in and flags repetition loops and
+ * commentary ("This image shows...") so the caller can abort early and retry.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import type { OcrOptions } from './providers/types';
+
+export type GuardViolationType = 'repetition' | 'commentary';
+
+export interface GuardViolation {
+	type: GuardViolationType;
+	detail: string; // Repeated fragment or matched phrase (truncated)
+	offset: number; // Text before this offset is considered good output
+}
+
+export interface OutputGuard {
+	/**
+	 * Feed the next chunk, returns a violation as soon as one is detected
+	 */
+	push(chunk: string): GuardViolation | null;
+}
+
+// Only the tail of the text is searched for loops
+const REPETITION_WINDOW = 2000;
+// Shorter fragments (dot leaders, separators) repeat legitimately
+const MIN_PERIOD = 12;
+const MAX_PERIOD = 400;
+// Short fragments need more copies before they count as a loop
+const SHORT_PERIOD = 50;
+const SHORT_PERIOD_REPEATS = 4;
+const LONG_PERIOD_REPEATS = 3;
+// Re-check after this many characters even without a newline
+const CHECK_INTERVAL = 200;
+// Commentary is only looked for in the first lines of output
+const COMMENTARY_LINES = 3;
+const DETAIL_LENGTH = 80;
+// Tags and tag fragments, so runs of empty HTML table cells are not taken for loops
+const MARKUP = /<\/?[a-z0-9]*|[a-z0-9]*\/?>/gi;
+
+const COMMENTARY_PATTERNS = [
+	/^(this|the) (image|picture|photo|photograph|screenshot) (shows|contains|depicts|displays|appears)\b/i,
+	/^in (this|the) (image|picture|photo|screenshot)\b/i,
+	/^(here is|here's|below is) (the |all )?(extracted |transcribed |visible )?text\b/i,
+	/^(the|this) text (in|from|on) (the|this) (image|picture|photo)\b/i,
+	/^i('m| am) (sorry|unable)\b/i,
+	/^i (can(no|')t|cannot) (read|see|extract|transcribe)\b/i,
+	/^as an ai\b/i
+];
+
+/**
+ * Find a loop at the end of the text: the same fragment repeated back to back
+ */
+export function detectRepetition(text: string): GuardViolation | null {
+	const windowStart = Math.max(0, text.length - REPETITION_WINDOW);
+
+	for (let period = MIN_PERIOD; period <= MAX_PERIOD; period++) {
+		const repeats = period < SHORT_PERIOD ? SHORT_PERIOD_REPEATS : LONG_PERIOD_REPEATS;
+		const span = period * repeats;
+		if (text.length - windowStart < span) continue;
+
+		// Every character in the tail must match the one a period earlier
+		const tailStart = text.length - span;
+		let periodic = true;
+		for (let i = text.length - 1; i >= tailStart + period; i--) {
+			if (text[i] !== text[i - period]) {
+				periodic = false;
+				break;
+			}
+		}
+		if (!periodic) continue;
+
+		const fragment = text.slice(text.length - period);
+		// Whitespace, punctuation and markup runs are not worth a retry
+		if (!/[\p{L}\p{N}]/u.test(fragment.replace(MARKUP, ''))) continue;
+
+		// Walk back to where the loop began, keeping the first copy
+		let start = tailStart;
+		while (start > 0 && text[start - 1] === text[start - 1 + period]) {
+			start--;
+		}
+
+		return {
+			type: 'repetition',
+			detail: fragment.trim().slice(0, DETAIL_LENGTH),
+			offset: start + period
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Find model commentary in the first lines of output
+ */
+export function detectCommentary(text: string, complete = true): GuardViolation | null {
+	let offset = 0;
+	let checked = 0;
+
+	for (const line of text.split('\n')) {
+		const lineStart = offset;
+		offset += line.length + 1;
+
+		// The last line may still be streaming in
+		if (!complete && offset > text.length) break;
+
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+
+		if (COMMENTARY_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+			return {
+				type: 'commentary',
+				detail: trimmed.slice(0, DETAIL_LENGTH),
+				offset: lineStart
+			};
+		}
+
+		if (++checked >= COMMENTARY_LINES) break;
+	}
+
+	return null;
+}
+
+/**
+ * Check a complete text, used for non-streaming requests
+ */
+export function detectViolation(text: string): GuardViolation | null {
+	return detectCommentary(text) ?? detectRepetition(text);
+}
+
+/**
+ * Create a guard for one streamed response
+ */
+export function createOutputGuard(): OutputGuard {
+	let text = '';
+	let lastCheck = 0;
+	let commentaryReported = false;
+
+	return {
+		push(chunk) {
+			text += chunk;
+
+			// Checks are cheap but not free - run them at line ends or every few hundred chars
+			if (!chunk.includes('\n') && text.length - lastCheck < CHECK_INTERVAL) {
+				return null;
+			}
+			lastCheck = text.length;
+
+			// Commentary is reported once, loops keep being watched
+			if (!commentaryReported) {
+				const commentary = detectCommentary(text, false);
+				if (commentary) {
+					commentaryReported = true;
+					return commentary;
+				}
+			}
+
+			return detectRepetition(text);
+		}
+	};
+}
+
+/**
+ * Sampling options for the retry after a violation
+ */
+export function adjustOptionsForRetry(options: OcrOptions, violation: GuardViolation): OcrOptions {
+	if (violation.type === 'repetition') {
+		// A little randomness plus a harder penalty breaks deterministic loops
+		return {
+			...options,
+			temperature: Math.max(options.temperature ?? 0, 0.2),
+			repeat_penalty: (options.repeat_penalty ?? 1.1) + 0.3,
+			repeat_last_n: Math.max(options.repeat_last_n ?? 64, 1024)
+		};
+	}
+
+	return {
+		...options,
+		temperature: 0,
+		top_p: Math.min(options.top_p ?? 1, 0.3)
+	};
+}
+
+/**
+ * Prompt for the retry after a violation
+ */
+export function adjustPromptForRetry(prompt: string, violation: GuardViolation): string {
+	if (violation.type === 'commentary') {
+		return `${prompt}
+
+IMPORTANT: Your previous answer described the image instead of transcribing it. Output ONLY the text that appears in the image, starting with its first word.`;
+	}
+
+	return `${prompt}
+
+IMPORTANT: Your previous answer got stuck repeating itself. Transcribe each line exactly once.`;
+}
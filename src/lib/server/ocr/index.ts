@@ -1,33 +1,39 @@
-// Model configuration
-export const OCR_MODEL = 'llama3.2-vision:latest';
+import { OcrProviderError, type OcrBackendEvent, type OcrProvider } from './providers';
+import type { OcrModel } from '../config/models';
+import { estimateConfidence } from './confidence';
+import { getLanguageName } from './language';
+import { cleanupOutput, FORMAT_INSTRUCTIONS, toPlainText, type OutputFormat } from './format';
+
+export { OCR_MODELS, OCR_MODEL_LIST, DEFAULT_OCR_MODEL, getOcrModel } from '../config/models';
+
 export const OCR_MAX_TOKENS = 16384;
-export const OCR_CONTEXT_SIZE = 16384;
 
 // Parallel processing configuration for PDFs
 export const PDF_PARALLEL_PAGES = 4; // Process 4 pages at a time on A5000
 
-// Ollama options optimized for OCR accuracy and preventing repetition/commentary
-export const OCR_OPTIONS = {
-	temperature: 0, // Deterministic output for accuracy
-	num_predict: 8192, // Hard cap - enough for most documents (~6k words)
-	num_ctx: OCR_CONTEXT_SIZE,
-	num_gpu: 999,
-	main_gpu: 0,
-	num_thread: 8,
-	repeat_penalty: 1.8, // Stronger penalty to stop repetition loops
-	repeat_last_n: 512, // Longer lookback to catch repetitive patterns
-	top_k: 5, // Tighter token selection for deterministic OCR
-	top_p: 0.5 // Much tighter sampling to prevent hallucinations/commentary
-};
-
 /**
- * Build the OCR prompt based on whether custom instructions are provided
+ * Build the OCR prompt based on whether custom instructions are provided.
+ * Languages detected on an earlier scan are passed on as a hint.
  */
-export function buildPrompt(customPrompt?: string | null): string {
+export function buildPrompt(
+	customPrompt?: string | null,
+	options: { languages?: string[]; outputFormat?: OutputFormat } = {}
+): string {
 	const custom = customPrompt?.trim();
+	const languages = options.languages ?? [];
+	const formatInstructions = FORMAT_INSTRUCTIONS[options.outputFormat ?? 'text'];
 
 	// Strict prompt to prevent model commentary and repetition
-	const basePrompt = `OCR task: Extract all visible text from this image verbatim. Rules: Output ONLY the extracted text. Do NOT add commentary, explanations, notes, or observations. Do NOT repeat content. Stop when all text is extracted.`;
+	let basePrompt = `OCR task: Extract all visible text from this image verbatim. Rules: Output ONLY the extracted text. Do NOT add commentary, explanations, notes, or observations. Do NOT repeat content. Stop when all text is extracted.`;
+
+	if (languages.length > 0) {
+		const names = languages.map(getLanguageName).join(', ');
+		basePrompt += ` The text is likely in ${names}. Keep it in its original language, do NOT translate it.`;
+	}
+
+	if (formatInstructions) {
+		basePrompt += ` ${formatInstructions}`;
+	}
 
 	if (!custom) {
 		return basePrompt;
@@ -39,79 +45,63 @@ export function buildPrompt(customPrompt?: string | null): string {
 Additional instructions: ${custom}`;
 }
 
-/**
- * Response from Ollama API
- */
-interface OllamaResponse {
-	model: string;
-	created_at: string;
-	response: string;
-	done: boolean;
-	total_duration?: number;
-	load_duration?: number;
-	prompt_eval_duration?: number;
-	eval_duration?: number;
-}
-
 /**
  * OCR result from processing an image
  */
 export interface OCRResult {
 	text: string;
 	processingTimeMs: number;
+	confidence: number | null; // 0-1 estimate, null when no text was extracted
 	success: boolean;
 	error?: string;
+	retryable?: boolean; // The backend failed transiently and retries ran out
+	backendEvents: OcrBackendEvent[]; // Retries and failovers performed by the endpoint pool
 }
 
 /**
- * Process an image with Ollama vision model for OCR
+ * Process an image with the configured OCR provider (non-streaming)
  */
-export async function processImageWithOllama(
-	ollamaEndpoint: string,
+export async function processImage(
+	provider: OcrProvider,
+	model: OcrModel,
 	imageBase64: string,
-	prompt: string
+	prompt: string,
+	mimeType?: string,
+	outputFormat: OutputFormat = 'text'
 ): Promise<OCRResult> {
 	const startTime = Date.now();
+	const backendEvents: OcrBackendEvent[] = [];
+	const logprobs: number[] = [];
 
 	try {
-		const response = await fetch(`${ollamaEndpoint}/api/generate`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify({
-				model: OCR_MODEL,
-				prompt: prompt,
-				images: [imageBase64],
-				stream: false,
-				options: OCR_OPTIONS,
-				keep_alive: '30m'
-			})
+		const output = await provider.generate({
+			model: model.id,
+			prompt,
+			imageBase64,
+			mimeType,
+			options: model.options,
+			onEvent: (event) => backendEvents.push(event),
+			onLogprobs: (values) => logprobs.push(...values)
 		});
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			return {
-				text: '',
-				processingTimeMs: Date.now() - startTime,
-				success: false,
-				error: `Ollama API error: ${response.status} - ${errorText}`
-			};
-		}
-
-		const data = (await response.json()) as OllamaResponse;
+		const text = cleanupOutput(output, outputFormat);
 
 		return {
-			text: data.response.trim(),
+			text,
 			processingTimeMs: Date.now() - startTime,
-			success: true
+			confidence: estimateConfidence({ text: toPlainText(text, outputFormat), logprobs }),
+			success: true,
+			backendEvents
 		};
 	} catch (error) {
 		return {
 			text: '',
 			processingTimeMs: Date.now() - startTime,
+			confidence: null,
 			success: false,
-			error: error instanceof Error ? error.message : 'Unknown error occurred'
+			error: error instanceof Error ? error.message : 'Unknown error occurred',
+			retryable: error instanceof OcrProviderError && error.retryable,
+			backendEvents
 		};
 	}
 }
@@ -0,0 +1,272 @@
+/**
+ * Language detection for extracted text
+ * Works out the dominant language(s) of a text from the scripts its letters are
+ * written in, and for Latin and Cyrillic text from common words and telltale letters.
+ * Results are ISO 639-1 codes, stored comma-separated in the `language` columns.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+export type Script =
+	| 'latin'
+	| 'cyrillic'
+	| 'greek'
+	| 'arabic'
+	| 'hebrew'
+	| 'devanagari'
+	| 'bengali'
+	| 'tamil'
+	| 'thai'
+	| 'georgian'
+	| 'armenian'
+	| 'han'
+	| 'kana'
+	| 'hangul';
+
+export interface LanguageInfo {
+	name: string;
+	script: Script;
+}
+
+export const LANGUAGES: Record<string, LanguageInfo> = {
+	en: { name: 'English', script: 'latin' },
+	fr: { name: 'French', script: 'latin' },
+	de: { name: 'German', script: 'latin' },
+	es: { name: 'Spanish', script: 'latin' },
+	it: { name: 'Italian', script: 'latin' },
+	pt: { name: 'Portuguese', script: 'latin' },
+	nl: { name: 'Dutch', script: 'latin' },
+	sv: { name: 'Swedish', script: 'latin' },
+	da: { name: 'Danish', script: 'latin' },
+	pl: { name: 'Polish', script: 'latin' },
+	cs: { name: 'Czech', script: 'latin' },
+	tr: { name: 'Turkish', script: 'latin' },
+	ru: { name: 'Russian', script: 'cyrillic' },
+	uk: { name: 'Ukrainian', script: 'cyrillic' },
+	el: { name: 'Greek', script: 'greek' },
+	ar: { name: 'Arabic', script: 'arabic' },
+	fa: { name: 'Persian', script: 'arabic' },
+	ur: { name: 'Urdu', script: 'arabic' },
+	he: { name: 'Hebrew', script: 'hebrew' },
+	hi: { name: 'Hindi', script: 'devanagari' },
+	bn: { name: 'Bengali', script: 'bengali' },
+	ta: { name: 'Tamil', script: 'tamil' },
+	th: { name: 'Thai', script: 'thai' },
+	ka: { name: 'Georgian', script: 'georgian' },
+	hy: { name: 'Armenian', script: 'armenian' },
+	zh: { name: 'Chinese', script: 'han' },
+	ja: { name: 'Japanese', script: 'kana' },
+	ko: { name: 'Korean', script: 'hangul' }
+};
+
+// Below this many letters a guess is not worth storing
+const MIN_LETTERS = 20;
+// Secondary languages must cover at least this share of the letters
+const MIN_SHARE = 0.2;
+const MAX_LANGUAGES = 3;
+// A block of Latin text needs this many hits to be assigned on its own
+const MIN_BLOCK_HITS = 2;
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+	['latin', /\p{Script=Latin}/u],
+	['cyrillic', /\p{Script=Cyrillic}/u],
+	['greek', /\p{Script=Greek}/u],
+	['arabic', /\p{Script=Arabic}/u],
+	['hebrew', /\p{Script=Hebrew}/u],
+	['devanagari', /\p{Script=Devanagari}/u],
+	['bengali', /\p{Script=Bengali}/u],
+	['tamil', /\p{Script=Tamil}/u],
+	['thai', /\p{Script=Thai}/u],
+	['georgian', /\p{Script=Georgian}/u],
+	['armenian', /\p{Script=Armenian}/u],
+	['kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+	['han', /\p{Script=Han}/u],
+	['hangul', /\p{Script=Hangul}/u]
+];
+
+// Scripts used by a single language in this table
+const SCRIPT_LANGUAGES: Partial<Record<Script, string>> = {
+	greek: 'el',
+	hebrew: 'he',
+	devanagari: 'hi',
+	bengali: 'bn',
+	tamil: 'ta',
+	thai: 'th',
+	georgian: 'ka',
+	armenian: 'hy',
+	hangul: 'ko'
+};
+
+// Frequent short words, a hit each time one appears
+const STOPWORDS: Record<string, string> = {
+	en: 'the and of to is in that for with this you are was be on not have from by at',
+	fr: 'le la les et des est un une du que pour dans pas sur au avec ce qui nous vous',
+	de: 'der die das und ist nicht ein eine zu den mit sich des auf für im dem auch wir sie',
+	es: 'el los las y que es por para con una del se no su al lo como más pero sus',
+	it: 'il della che di è per una sono non gli nel alla con dei delle anche come più questo ma',
+	pt: 'o os as que não uma para com do da dos das em no na por mais como você são',
+	nl: 'de het een en van is dat niet op te zijn voor met ook aan maar wij naar bij deze',
+	sv: 'och att det som är en på för med av inte den till har jag var om ett vi från',
+	da: 'og at det som er en på for med af ikke den til har jeg var om et vi fra',
+	pl: 'i w nie na się z jest do że to o jak ale po co tak za od są przez',
+	cs: 'a je v se na že to do jsou ve jak ale po od pro které být jako tak nebo',
+	tr: 've bir bu da de için ile çok ne daha gibi olan var ama sonra kadar değil her mi en'
+};
+
+// Letters that only some Latin-script languages use, a hit per word containing one
+const TELLTALE_LETTERS: Record<string, RegExp> = {
+	de: /[ßäöü]/i,
+	fr: /[èêëàùûçœ]/i,
+	es: /[ñ¿¡]/i,
+	pt: /[ãõ]/i,
+	sv: /[åä]/i,
+	da: /[æø]/i,
+	pl: /[łśżźćńąę]/i,
+	cs: /[řůěšč]/i,
+	tr: /[ğış]/i
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+	Object.entries(STOPWORDS).map(([code, words]) => [code, new Set(words.split(' '))])
+);
+const LATIN_LANGUAGES = Object.keys(STOPWORDS);
+
+export interface LanguageShare {
+	code: string;
+	share: number; // Fraction of the text's letters, 0-1
+}
+
+function scriptOf(word: string): Script | null {
+	for (const [script, pattern] of SCRIPT_PATTERNS) {
+		if (pattern.test(word)) return script;
+	}
+	return null;
+}
+
+/**
+ * Best Latin-script language for a list of lowercase words, with its number of hits
+ */
+function scoreLatin(words: string[]): { code: string; hits: number } | null {
+	let best: { code: string; hits: number } | null = null;
+
+	for (const code of LATIN_LANGUAGES) {
+		const stopwords = STOPWORD_SETS[code];
+		const telltale = TELLTALE_LETTERS[code];
+		let hits = 0;
+		for (const word of words) {
+			if (stopwords.has(word)) hits++;
+			if (telltale?.test(word)) hits++;
+		}
+		if (hits > 0 && (!best || hits > best.hits)) {
+			best = { code, hits };
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Dominant languages of a text with their share of its letters, most common first
+ */
+export function detectLanguages(text: string): LanguageShare[] {
+	const letters = new Map<string, number>();
+	const add = (code: string, count: number) => letters.set(code, (letters.get(code) ?? 0) + count);
+
+	// Latin text is scored per block so bilingual documents keep both languages
+	let unassignedLatin = 0;
+	const latinWords: string[] = [];
+	let hasKana = false;
+
+	for (const block of text.split(/\n\s*\n/)) {
+		const blockLatin: string[] = [];
+
+		for (const word of block.toLowerCase().match(/\p{L}+/gu) ?? []) {
+			const script = scriptOf(word);
+			const count = [...word].length;
+
+			switch (script) {
+				case 'latin':
+					blockLatin.push(word);
+					break;
+				case 'cyrillic':
+					add(/[іїєґ]/.test(word) ? 'uk' : 'ru', count);
+					break;
+				case 'arabic':
+					add(/[ٹڈڑںے]/.test(word) ? 'ur' : /[پچژگ]/.test(word) ? 'fa' : 'ar', count);
+					break;
+				case 'kana':
+					hasKana = true;
+					add('ja', count);
+					break;
+				case 'han':
+					// Kanji count as Japanese once kana shows up, see below
+					add('zh', count);
+					break;
+				case null:
+					break;
+				default:
+					add(SCRIPT_LANGUAGES[script]!, count);
+			}
+		}
+
+		const blockLetters = blockLatin.reduce((sum, word) => sum + word.length, 0);
+		const best = scoreLatin(blockLatin);
+		if (best && best.hits >= MIN_BLOCK_HITS) {
+			add(best.code, blockLetters);
+		} else {
+			unassignedLatin += blockLetters;
+		}
+		latinWords.push(...blockLatin);
+	}
+
+	// Short blocks go to the language of the Latin text as a whole
+	if (unassignedLatin > 0) {
+		const best = scoreLatin(latinWords);
+		if (best) add(best.code, unassignedLatin);
+	}
+
+	// Japanese mixes kanji with kana
+	if (hasKana && letters.has('zh')) {
+		add('ja', letters.get('zh')!);
+		letters.delete('zh');
+	}
+
+	const total = [...letters.values()].reduce((sum, count) => sum + count, 0);
+	if (total < MIN_LETTERS) return [];
+
+	return [...letters.entries()]
+		.map(([code, count]) => ({ code, share: count / total }))
+		.filter((entry) => entry.share >= MIN_SHARE)
+		.sort((a, b) => b.share - a.share)
+		.slice(0, MAX_LANGUAGES)
+		.map((entry) => ({ code: entry.code, share: Math.round(entry.share * 100) / 100 }));
+}
+
+/**
+ * Value for a `language` column: detected codes, most common first, or null
+ */
+export function detectLanguage(text: string): string | null {
+	const languages = detectLanguages(text);
+	return languages.length > 0 ? languages.map((entry) => entry.code).join(',') : null;
+}
+
+/**
+ * Codes stored in a `language` column
+ */
+export function parseLanguages(value: string | null | undefined): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((code) => code.trim())
+		.filter(Boolean);
+}
+
+export function getLanguageName(code: string): string {
+	return LANGUAGES[code]?.name ?? code;
+}
+
+/**
+ * Whether the main language is written in a non-Latin script
+ */
+export function isNonLatinLanguage(code: string | undefined): boolean {
+	return !!code && !!LANGUAGES[code] && LANGUAGES[code].script !== 'latin';
+}
@@ -0,0 +1,356 @@
+/**
+ * Layout-aware OCR
+ * An optional pass that asks the model for the page's text lines with bounding boxes,
+ * grouped into blocks. Boxes are stored in pixels of the page image as displayed, words
+ * are placed along their line in proportion to their length. The layout is exported as
+ * hOCR and ALTO XML for redaction and highlighting tools.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import { z } from 'zod';
+import type { OcrProvider } from './providers/types';
+import type { OcrModel } from '../config/models';
+import { parseJsonAnswer } from './extraction';
+
+export type BBox = [x0: number, y0: number, x1: number, y1: number];
+
+export interface LayoutWord {
+	text: string;
+	bbox: BBox;
+}
+
+export interface LayoutLine {
+	text: string;
+	bbox: BBox;
+	words: LayoutWord[];
+}
+
+export interface LayoutBlock {
+	bbox: BBox;
+	lines: LayoutLine[];
+}
+
+/**
+ * Text blocks of a page, in reading order
+ */
+export interface PageLayout {
+	width: number; // Pixel size the boxes refer to
+	height: number;
+	blocks: LayoutBlock[];
+}
+
+/**
+ * The page image as the model saw it, relative to the image as displayed
+ */
+export interface LayoutFrame {
+	width: number; // Displayed pixel size
+	height: number;
+	rotation?: number; // Clockwise rotation applied before the model saw it
+}
+
+// Models answer in a 0-1000 grid, whatever the image size
+const GRID = 1000;
+
+const boxSchema = z.array(z.number()).length(4);
+
+const answerSchema = z.object({
+	blocks: z
+		.array(
+			z.object({
+				lines: z.array(z.object({ text: z.string(), box: boxSchema }))
+			})
+		)
+		.max(500)
+});
+
+// Passed as the JSON Schema for backends that constrain output
+const ANSWER_JSON_SCHEMA = {
+	type: 'object',
+	properties: {
+		blocks: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: {
+					lines: {
+						type: 'array',
+						items: {
+							type: 'object',
+							properties: {
+								text: { type: 'string' },
+								box: { type: 'array', items: { type: 'integer' }, minItems: 4, maxItems: 4 }
+							},
+							required: ['text', 'box']
+						}
+					}
+				},
+				required: ['lines']
+			}
+		}
+	},
+	required: ['blocks']
+};
+
+const LAYOUT_PROMPT = `Layout task: Find every line of text in this image. Rules: Output ONLY a JSON object like {"blocks":[{"lines":[{"text":"...","box":[x0,y0,x1,y1]}]}]}. Do NOT wrap it in a code block or add commentary. "box" is the line's bounding box as integers from 0 to ${GRID}, relative to the image width (x) and height (y), with 0,0 the top-left corner. Put lines of the same paragraph, column or table cell in one block. List blocks and lines in reading order and copy each line's text exactly.`;
+
+function clamp(value: number): number {
+	return Math.min(GRID, Math.max(0, value));
+}
+
+/**
+ * Map a point from the rotated image the model saw back to the displayed image (0-1 units)
+ */
+function unrotate(u: number, v: number, rotation: number): [number, number] {
+	switch (rotation) {
+		case 90:
+			return [v, 1 - u];
+		case 180:
+			return [1 - u, 1 - v];
+		case 270:
+			return [1 - v, u];
+		default:
+			return [u, v];
+	}
+}
+
+function toPixelBox(box: number[], frame: LayoutFrame): BBox {
+	const [a, b] = unrotate(clamp(box[0]) / GRID, clamp(box[1]) / GRID, frame.rotation ?? 0);
+	const [c, d] = unrotate(clamp(box[2]) / GRID, clamp(box[3]) / GRID, frame.rotation ?? 0);
+
+	return [
+		Math.round(Math.min(a, c) * frame.width),
+		Math.round(Math.min(b, d) * frame.height),
+		Math.round(Math.max(a, c) * frame.width),
+		Math.round(Math.max(b, d) * frame.height)
+	];
+}
+
+/**
+ * Smallest box around a set of boxes
+ */
+export function unionBox(boxes: BBox[]): BBox {
+	return [
+		Math.min(...boxes.map((box) => box[0])),
+		Math.min(...boxes.map((box) => box[1])),
+		Math.max(...boxes.map((box) => box[2])),
+		Math.max(...boxes.map((box) => box[3]))
+	];
+}
+
+/**
+ * Words along a line, each given a share of the line's width by its length.
+ * Works on the grid box, where lines run left to right whatever the rotation.
+ */
+function splitWords(text: string, box: number[]): Array<{ text: string; box: number[] }> {
+	const words = text.split(/\s+/).filter(Boolean);
+	// Spaces count as one character between words
+	const units = words.reduce((sum, word) => sum + word.length, 0) + words.length - 1;
+	const [x0, y0, x1, y1] = box;
+	const unitWidth = units > 0 ? (x1 - x0) / units : 0;
+
+	let position = 0;
+	return words.map((word) => {
+		const start = x0 + position * unitWidth;
+		position += word.length + 1;
+		return { text: word, box: [start, y0, start + word.length * unitWidth, y1] };
+	});
+}
+
+/**
+ * Read the blocks and lines of a page with their bounding boxes.
+ * Throws when the model does not answer with a usable layout.
+ */
+export async function extractLayout(
+	provider: OcrProvider,
+	model: OcrModel,
+	image: { imageBase64: string; mimeType?: string },
+	frame: LayoutFrame,
+	signal?: AbortSignal
+): Promise<PageLayout> {
+	const answer = await provider.generate({
+		model: model.id,
+		prompt: LAYOUT_PROMPT,
+		imageBase64: image.imageBase64,
+		mimeType: image.mimeType,
+		options: { ...model.options, temperature: 0 },
+		jsonSchema: ANSWER_JSON_SCHEMA,
+		signal
+	});
+
+	const result = answerSchema.safeParse(parseJsonAnswer(answer));
+	if (!result.success) {
+		throw new Error('Layout answer did not match the expected format');
+	}
+
+	const blocks: LayoutBlock[] = [];
+	for (const block of result.data.blocks) {
+		const lines = block.lines
+			.map((line) => ({ text: line.text.trim(), box: line.box }))
+			.filter((line) => line.text)
+			.map((line) => ({
+				text: line.text,
+				bbox: toPixelBox(line.box, frame),
+				words: splitWords(line.text, line.box).map((word) => ({
+					text: word.text,
+					bbox: toPixelBox(word.box, frame)
+				}))
+			}));
+
+		if (lines.length > 0) {
+			blocks.push({ bbox: unionBox(lines.map((line) => line.bbox)), lines });
+		}
+	}
+
+	return { width: frame.width, height: frame.height, blocks };
+}
+
+/**
+ * Check a stored layout, null for missing or malformed values
+ */
+export function parsePageLayout(value: unknown): PageLayout | null {
+	const layout = typeof value === 'string' ? safeParse(value) : value;
+	if (
+		!layout ||
+		typeof layout !== 'object' ||
+		!Array.isArray((layout as PageLayout).blocks) ||
+		typeof (layout as PageLayout).width !== 'number' ||
+		typeof (layout as PageLayout).height !== 'number'
+	) {
+		return null;
+	}
+	return layout as PageLayout;
+}
+
+function safeParse(json: string): unknown {
+	try {
+		return JSON.parse(json);
+	} catch {
+		return null;
+	}
+}
+
+// =============================================================================
+// hOCR and ALTO export
+// =============================================================================
+
+/**
+ * A page for export, pages without a layout are exported with their size only
+ */
+export interface LayoutPage {
+	pageNumber: number;
+	width: number | null;
+	height: number | null;
+	layout: PageLayout | null;
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+function hocrBox(bbox: BBox): string {
+	return `bbox ${bbox.join(' ')}`;
+}
+
+/**
+ * hOCR 1.2 document (XHTML with ocr_page, ocr_carea, ocr_line and ocrx_word elements)
+ */
+export function toHocr(title: string, pages: LayoutPage[]): string {
+	const body = pages
+		.map((page) => {
+			const p = page.pageNumber;
+			const width = page.layout?.width ?? page.width ?? 0;
+			const height = page.layout?.height ?? page.height ?? 0;
+			const blocks = (page.layout?.blocks ?? [])
+				.map((block, b) => {
+					const lines = block.lines
+						.map((line, l) => {
+							const words = line.words
+								.map(
+									(word, w) =>
+										`<span class="ocrx_word" id="word_${p}_${b + 1}_${l + 1}_${w + 1}" title="${hocrBox(word.bbox)}">${escapeXml(word.text)}</span>`
+								)
+								.join(' ');
+							return `<span class="ocr_line" id="line_${p}_${b + 1}_${l + 1}" title="${hocrBox(line.bbox)}">${words}</span>`;
+						})
+						.join('\n');
+					return `<div class="ocr_carea" id="block_${p}_${b + 1}" title="${hocrBox(block.bbox)}"><p class="ocr_par">\n${lines}\n</p></div>`;
+				})
+				.join('\n');
+			return `<div class="ocr_page" id="page_${p}" title="bbox 0 0 ${width} ${height}; ppageno ${p - 1}">\n${blocks}\n</div>`;
+		})
+		.join('\n');
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+<head>
+<title>${escapeXml(title)}</title>
+<meta http-equiv="Content-Type" content="text/html; charset=utf-8" />
+<meta name="ocr-system" content="itsocr" />
+<meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function altoBox(bbox: BBox): string {
+	const [x0, y0, x1, y1] = bbox;
+	return `HPOS="${x0}" VPOS="${y0}" WIDTH="${x1 - x0}" HEIGHT="${y1 - y0}"`;
+}
+
+/**
+ * ALTO v4 XML document, measurements in pixels
+ */
+export function toAlto(fileName: string, pages: LayoutPage[]): string {
+	const layout = pages
+		.map((page) => {
+			const p = page.pageNumber;
+			const width = page.layout?.width ?? page.width ?? 0;
+			const height = page.layout?.height ?? page.height ?? 0;
+			const blocks = (page.layout?.blocks ?? [])
+				.map((block, b) => {
+					const lines = block.lines
+						.map((line, l) => {
+							const strings = line.words
+								.map(
+									(word, w) =>
+										`<String ID="P${p}_S${b + 1}_${l + 1}_${w + 1}" ${altoBox(word.bbox)} CONTENT="${escapeXml(word.text)}"/>`
+								)
+								.join('<SP/>');
+							return `<TextLine ID="P${p}_L${b + 1}_${l + 1}" ${altoBox(line.bbox)}>${strings}</TextLine>`;
+						})
+						.join('\n');
+					return `<TextBlock ID="P${p}_B${b + 1}" ${altoBox(block.bbox)}>\n${lines}\n</TextBlock>`;
+				})
+				.join('\n');
+			return `<Page ID="P${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${width}" HEIGHT="${height}">
+<PrintSpace HPOS="0" VPOS="0" WIDTH="${width}" HEIGHT="${height}">
+${blocks}
+</PrintSpace>
+</Page>`;
+		})
+		.join('\n');
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/standards/alto/v4/alto-4-2.xsd">
+<Description>
+<MeasurementUnit>pixel</MeasurementUnit>
+<sourceImageInformation>
+<fileName>${escapeXml(fileName)}</fileName>
+</sourceImageInformation>
+</Description>
+<Layout>
+${layout}
+</Layout>
+</alto>
+`;
+}
@@ -0,0 +1,61 @@
+/**
+ * Scan metadata
+ * Shape of the JSON stored in `scanned_image.metadata`
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import type { ImageCorrections } from '../image/preprocess';
+import type { Rotation } from '../image/orientation';
+import type { GuardViolationType } from './guard';
+import type { OcrBackendEvent } from './providers/types';
+
+export interface PagePreprocessing extends ImageCorrections {
+	pageNumber: number;
+	width: number; // Dimensions of the image sent to the model
+	height: number;
+}
+
+/**
+ * An output guard trip (repetition loop or commentary) while reading a page
+ */
+export interface GuardEvent {
+	pageNumber: number;
+	attempt: number; // 1-based attempt that tripped the guard
+	type: GuardViolationType;
+	detail: string; // Repeated fragment or matched phrase
+	action: 'retried' | 'truncated' | 'accepted'; // What happened to that attempt's output
+}
+
+/**
+ * A retry or failover by the endpoint pool while reading a page
+ */
+export interface BackendEvent extends OcrBackendEvent {
+	pageNumber: number;
+}
+
+export interface ScanMetadata {
+	rotation?: Rotation; // Manual rotation chosen with "rotate and rescan", replaces auto-detection
+	preprocessing?: PagePreprocessing[]; // Corrections applied to each page on the last scan
+	guard?: GuardEvent[]; // Output guard trips on the last scan, empty when it never fired
+	backend?: BackendEvent[]; // Backend retries and failovers on the last scan
+}
+
+/**
+ * Parse a metadata column value, tolerating null and legacy string values
+ */
+export function parseScanMetadata(value: unknown): ScanMetadata {
+	if (typeof value === 'string') {
+		try {
+			value = JSON.parse(value);
+		} catch {
+			return {};
+		}
+	}
+
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return {};
+	}
+
+	return value as ScanMetadata;
+}
@@ -0,0 +1,26 @@
+/**
+ * Scanned pages
+ * Every scan has one `scanned_page` row per page (a single image is page 1) holding the
+ * page's text and status. `scanned_image.extracted_text` keeps the whole document's text
+ * for search, previews and exports.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+export type PageStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// How a page's text was read: by the model, or taken from the PDF's text layer
+export type PageMethod = 'ocr' | 'text-layer';
+
+// Blank line between pages in the document text
+export const PAGE_SEPARATOR = '\n\n';
+
+/**
+ * Document text from page texts, skipping pages without text
+ */
+export function joinPageTexts(texts: (string | null | undefined)[]): string {
+	return texts
+		.map((text) => text?.trim())
+		.filter(Boolean)
+		.join(PAGE_SEPARATOR);
+}
@@ -0,0 +1,339 @@
+/**
+ * Searchable PDF export
+ * Rebuilds a scan as a PDF of its original PDF pages, or of its page images, with the
+ * OCR text laid over each page as invisible text so viewers can search, select and copy
+ * it. Pages read with layout get their words placed on the word boxes; other pages get
+ * their lines spread from the top of the page.
+ *
+ * The text uses a font without glyphs whose codes are UTF-16 code units, so every script
+ * can be searched and copied without embedding a font.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import {
+	PDFDocument,
+	PDFHexString,
+	PDFName,
+	PDFString,
+	TextRenderingMode,
+	beginText,
+	concatTransformationMatrix,
+	endText,
+	popGraphicsState,
+	pushGraphicsState,
+	setCharacterSqueeze,
+	setFontAndSize,
+	setTextMatrix,
+	setTextRenderingMode,
+	showText,
+	type PDFOperator,
+	type PDFPage,
+	type PDFRef
+} from 'pdf-lib';
+import type { PageLayout } from './layout';
+import { parsePageRange } from '../../utils/page-range';
+
+/**
+ * An upright page image pdf-lib can embed
+ */
+export interface PdfPageImage {
+	bytes: Uint8Array;
+	mimeType: string; // image/jpeg or image/png
+	width: number;
+	height: number;
+}
+
+export interface SearchablePage {
+	pageNumber: number;
+	text: string; // Plain text of the page
+	layout: PageLayout | null;
+}
+
+export interface SearchablePdfOptions<T extends SearchablePage> {
+	title: string;
+	original?: Uint8Array | null; // Original PDF, its pages are used when it can be read
+	pageRange?: string | null; // Pages of the original that were scanned, null for every page
+	loadImage: (page: T) => Promise<PdfPageImage>; // For pages not taken from the original
+}
+
+// Advance width of every character of the invisible font, in 1/1000 of the font size
+const GLYPH_WIDTH = 500;
+
+// Maps each two-byte code to the same UTF-16 code unit
+const TO_UNICODE_CMAP = `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+1 beginbfrange
+<0000> <FFFF> <0000>
+endbfrange
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+
+// Largest font size for pages without layout, in page units
+const MAX_FALLBACK_FONT_SIZE = 12;
+
+/**
+ * Register the invisible Type0 font in the document
+ */
+function addInvisibleFont(doc: PDFDocument): PDFRef {
+	const context = doc.context;
+	const toUnicode = context.register(context.flateStream(TO_UNICODE_CMAP));
+	const descriptor = context.register(
+		context.obj({
+			Type: 'FontDescriptor',
+			FontName: 'GlyphLessFont',
+			Flags: 5,
+			FontBBox: [0, 0, GLYPH_WIDTH, 1000],
+			ItalicAngle: 0,
+			Ascent: 1000,
+			Descent: 0,
+			CapHeight: 1000,
+			StemV: 80
+		})
+	);
+	const cidFont = context.register(
+		context.obj({
+			Type: 'Font',
+			Subtype: 'CIDFontType2',
+			BaseFont: 'GlyphLessFont',
+			CIDSystemInfo: {
+				Registry: PDFString.of('Adobe'),
+				Ordering: PDFString.of('Identity'),
+				Supplement: 0
+			},
+			FontDescriptor: descriptor,
+			DW: GLYPH_WIDTH,
+			CIDToGIDMap: 'Identity'
+		})
+	);
+
+	return context.register(
+		context.obj({
+			Type: 'Font',
+			Subtype: 'Type0',
+			BaseFont: 'GlyphLessFont',
+			Encoding: 'Identity-H',
+			DescendantFonts: [cidFont],
+			ToUnicode: toUnicode
+		})
+	);
+}
+
+function encodeText(text: string): PDFHexString {
+	let hex = '';
+	for (let i = 0; i < text.length; i++) {
+		hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+	}
+	return PDFHexString.of(hex);
+}
+
+/**
+ * Invisible text with its baseline at (x, y), squeezed or stretched to the given width
+ */
+function textOperators(
+	font: PDFName,
+	text: string,
+	x: number,
+	y: number,
+	size: number,
+	width: number
+): PDFOperator[] {
+	const naturalWidth = (text.length * GLYPH_WIDTH * size) / 1000;
+	if (naturalWidth <= 0 || size <= 0) return [];
+
+	return [
+		beginText(),
+		setFontAndSize(font, size),
+		setTextRenderingMode(TextRenderingMode.Invisible),
+		setCharacterSqueeze((width / naturalWidth) * 100),
+		setTextMatrix(1, 0, 0, 1, x, y),
+		showText(encodeText(text)),
+		endText()
+	];
+}
+
+/**
+ * Text of a page in display units (origin at the bottom left, width by height)
+ */
+function pageTextOperators(
+	font: PDFName,
+	page: SearchablePage,
+	width: number,
+	height: number
+): PDFOperator[] {
+	const operators: PDFOperator[] = [];
+
+	if (page.layout && page.layout.width > 0 && page.layout.height > 0) {
+		const scaleX = width / page.layout.width;
+		const scaleY = height / page.layout.height;
+
+		for (const block of page.layout.blocks) {
+			for (const line of block.lines) {
+				for (const word of line.words) {
+					const [x0, y0, x1, y1] = word.bbox;
+					operators.push(
+						...textOperators(
+							font,
+							word.text,
+							x0 * scaleX,
+							height - y1 * scaleY,
+							(y1 - y0) * scaleY,
+							(x1 - x0) * scaleX
+						)
+					);
+				}
+			}
+		}
+		return operators;
+	}
+
+	// No boxes - one line of text per line of the page, shrunk to fit the page
+	const lines = page.text.split('\n');
+	const size = Math.min(MAX_FALLBACK_FONT_SIZE, height / Math.max(lines.length, 1));
+
+	lines.forEach((line, index) => {
+		const text = line.trim();
+		if (!text) return;
+		const naturalWidth = (text.length * GLYPH_WIDTH * size) / 1000;
+		operators.push(
+			...textOperators(
+				font,
+				text,
+				0,
+				height - (index + 1) * size,
+				size,
+				Math.min(naturalWidth, width)
+			)
+		);
+	});
+
+	return operators;
+}
+
+/**
+ * Matrix from display units to the user space of a page, through its /Rotate and crop box
+ */
+function displayFrame(page: PDFPage): {
+	width: number;
+	height: number;
+	matrix: [number, number, number, number, number, number];
+} {
+	const box = page.getCropBox();
+	const rotation = (((page.getRotation().angle % 360) + 360) % 360) as 0 | 90 | 180 | 270;
+
+	switch (rotation) {
+		case 90:
+			return {
+				width: box.height,
+				height: box.width,
+				matrix: [0, 1, -1, 0, box.x + box.width, box.y]
+			};
+		case 180:
+			return {
+				width: box.width,
+				height: box.height,
+				matrix: [-1, 0, 0, -1, box.x + box.width, box.y + box.height]
+			};
+		case 270:
+			return {
+				width: box.height,
+				height: box.width,
+				matrix: [0, -1, 1, 0, box.x, box.y + box.height]
+			};
+		default:
+			return { width: box.width, height: box.height, matrix: [1, 0, 0, 1, box.x, box.y] };
+	}
+}
+
+async function loadOriginal(bytes: Uint8Array | null | undefined): Promise<PDFDocument | null> {
+	if (!bytes) return null;
+	try {
+		return await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+	} catch (error) {
+		console.warn('[PDF] Original PDF could not be read, using page images:', error);
+		return null;
+	}
+}
+
+/**
+ * Pages of the original in scan order: scan page n is the nth selected page. Empty when
+ * the selection does not fit the original, whose pages are then not used.
+ */
+function originalPages(pageCount: number, pageRange: string | null | undefined): number[] {
+	if (!pageRange) {
+		return Array.from({ length: pageCount }, (_, index) => index + 1);
+	}
+	try {
+		return parsePageRange(pageRange, pageCount);
+	} catch (error) {
+		console.warn('[PDF] Page selection does not fit the original PDF, using page images:', error);
+		return [];
+	}
+}
+
+/**
+ * Build a searchable PDF with one page per scanned page, in the given order
+ */
+export async function buildSearchablePdf<T extends SearchablePage>(
+	pages: T[],
+	options: SearchablePdfOptions<T>
+): Promise<Uint8Array<ArrayBuffer>> {
+	const doc = await PDFDocument.create();
+	doc.setTitle(options.title);
+	doc.setProducer('itsocr');
+
+	const fontRef = addInvisibleFont(doc);
+	const original = await loadOriginal(options.original);
+	const sourcePages = original ? originalPages(original.getPageCount(), options.pageRange) : [];
+
+	for (const page of pages) {
+		const index = (sourcePages[page.pageNumber - 1] ?? 0) - 1;
+
+		if (original && index >= 0) {
+			// The original page as it is, its own content kept apart from the text layer
+			const [copied] = await doc.copyPages(original, [index]);
+			doc.addPage(copied);
+
+			copied.node.normalize();
+			copied.node.wrapContentStreams(
+				doc.context.register(doc.context.contentStream([pushGraphicsState()])),
+				doc.context.register(doc.context.contentStream([popGraphicsState()]))
+			);
+
+			const frame = displayFrame(copied);
+			const font = copied.node.newFontDictionary('OcrText', fontRef);
+			copied.pushOperators(
+				pushGraphicsState(),
+				concatTransformationMatrix(...frame.matrix),
+				...pageTextOperators(font, page, frame.width, frame.height),
+				popGraphicsState()
+			);
+			continue;
+		}
+
+		const image = await options.loadImage(page);
+		const embedded =
+			image.mimeType === 'image/png'
+				? await doc.embedPng(image.bytes)
+				: await doc.embedJpg(image.bytes);
+
+		// One page unit per image pixel
+		const added = doc.addPage([image.width, image.height]);
+		added.drawImage(embedded, { x: 0, y: 0, width: image.width, height: image.height });
+
+		const font = added.node.newFontDictionary('OcrText', fontRef);
+		added.pushOperators(...pageTextOperators(font, page, image.width, image.height));
+	}
+
+	// pdf-lib writes into a fresh ArrayBuffer
+	return (await doc.save()) as Uint8Array<ArrayBuffer>;
+}
@@ -0,0 +1,51 @@
+/**
+ * OCR provider errors
+ * Carries the HTTP status and whether a retry could succeed, so the endpoint
+ * pool can tell transient backend failures from bad requests.
+ */
+
+export class OcrProviderError extends Error {
+	readonly status?: number;
+	readonly retryable: boolean;
+
+	constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+		super(message);
+		this.name = 'OcrProviderError';
+		this.status = options.status;
+		this.retryable = options.retryable ?? false;
+	}
+}
+
+/**
+ * Timeouts, rate limits and server errors are worth retrying, other 4xx are not
+ */
+export function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Build an error from a non-2xx backend response
+ */
+export async function responseError(label: string, response: Response): Promise<OcrProviderError> {
+	const errorText = await response.text().catch(() => '');
+	return new OcrProviderError(`${label} error: ${response.status} - ${errorText}`, {
+		status: response.status,
+		retryable: isRetryableStatus(response.status)
+	});
+}
+
+/**
+ * Normalize anything thrown by a provider.
+ * fetch rejects with a TypeError on DNS failures and connection resets, which are transient.
+ */
+export function toProviderError(error: unknown): OcrProviderError {
+	if (error instanceof OcrProviderError) {
+		return error;
+	}
+
+	if (error instanceof TypeError) {
+		return new OcrProviderError(`Connection error: ${error.message}`, { retryable: true });
+	}
+
+	return new OcrProviderError(error instanceof Error ? error.message : String(error));
+}
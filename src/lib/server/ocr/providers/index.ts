@@ -0,0 +1,175 @@
+/**
+ * OCR provider registry
+ * Selects the OCR backend from environment configuration:
+ *
+ * - OCR_PROVIDER:  'ollama' (default), 'openai' or 'mock'
+ * - OCR_ENDPOINT:  Base URL of the backend (defaults to the hosted Ollama instance)
+ * - OCR_ENDPOINTS: Comma-separated pool of base URLs, each optionally suffixed
+ *                  with `|weight` (e.g. `https://a.example.com|3,https://b.example.com`).
+ *                  Takes precedence over OCR_ENDPOINT.
+ * - OCR_API_KEY:   Optional bearer token sent to the backend
+ * - OCR_MAX_ATTEMPTS, OCR_REQUEST_TIMEOUT_MS, OCR_HEALTH_CHECK_INTERVAL_MS: pool tuning
+ */
+
+import type { OcrProvider, OcrProviderConfig, OcrProviderName } from './types';
+import { createOllamaProvider } from './ollama';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+import { createPooledProvider, DEFAULT_POOL_OPTIONS, type PoolOptions } from './pool';
+
+export type {
+	OcrBackendEvent,
+	OcrOptions,
+	OcrProvider,
+	OcrProviderConfig,
+	OcrProviderName,
+	OcrRequest
+} from './types';
+export { OcrProviderError } from './errors';
+
+export const DEFAULT_OCR_ENDPOINT = 'https://ollama.itsocr.com';
+
+const PROVIDER_NAMES: OcrProviderName[] = ['ollama', 'openai', 'mock'];
+
+/**
+ * Environment variables read by resolveOcrProviderConfig and resolveOcrPoolConfig
+ */
+export interface OcrProviderEnv {
+	OCR_PROVIDER?: string;
+	OCR_ENDPOINT?: string;
+	OCR_ENDPOINTS?: string;
+	OCR_API_KEY?: string;
+	OCR_MAX_ATTEMPTS?: string;
+	OCR_REQUEST_TIMEOUT_MS?: string;
+	OCR_HEALTH_CHECK_INTERVAL_MS?: string;
+}
+
+/**
+ * Endpoint pool configuration
+ */
+export interface OcrPoolConfig {
+	provider: OcrProviderName;
+	apiKey?: string;
+	endpoints: { url: string; weight: number }[];
+	options: PoolOptions;
+}
+
+/**
+ * Build a provider config from environment variables, falling back to defaults
+ */
+export function resolveOcrProviderConfig(env: OcrProviderEnv | undefined): OcrProviderConfig {
+	const name = env?.OCR_PROVIDER?.trim().toLowerCase() || 'ollama';
+
+	if (!PROVIDER_NAMES.includes(name as OcrProviderName)) {
+		throw new Error(
+			`Unknown OCR_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+		);
+	}
+
+	return {
+		provider: name as OcrProviderName,
+		endpoint: env?.OCR_ENDPOINT?.trim() || DEFAULT_OCR_ENDPOINT,
+		apiKey: env?.OCR_API_KEY?.trim() || undefined
+	};
+}
+
+/**
+ * Parse an OCR_ENDPOINTS value: `url[|weight]` entries separated by commas
+ */
+export function parseEndpointList(value: string): { url: string; weight: number }[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter(Boolean)
+		.map((entry) => {
+			const [url, weight] = entry.split('|').map((part) => part.trim());
+			const parsedWeight = Number(weight);
+
+			if (weight !== undefined && !(parsedWeight > 0)) {
+				throw new Error(`Invalid weight in OCR_ENDPOINTS entry "${entry}"`);
+			}
+
+			return { url, weight: weight === undefined ? 1 : parsedWeight };
+		});
+}
+
+// Positive integer from an env var, or the fallback
+function positiveInt(value: string | undefined, fallback: number): number {
+	const parsed = parseInt(value || '', 10);
+	return parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Build an endpoint pool config from environment variables
+ */
+export function resolveOcrPoolConfig(env: OcrProviderEnv | undefined): OcrPoolConfig {
+	const base = resolveOcrProviderConfig(env);
+	const endpoints = env?.OCR_ENDPOINTS?.trim()
+		? parseEndpointList(env.OCR_ENDPOINTS)
+		: [{ url: base.endpoint, weight: 1 }];
+
+	return {
+		provider: base.provider,
+		apiKey: base.apiKey,
+		endpoints,
+		options: {
+			...DEFAULT_POOL_OPTIONS,
+			maxAttempts: positiveInt(env?.OCR_MAX_ATTEMPTS, DEFAULT_POOL_OPTIONS.maxAttempts),
+			timeoutMs: positiveInt(env?.OCR_REQUEST_TIMEOUT_MS, DEFAULT_POOL_OPTIONS.timeoutMs),
+			healthCheckIntervalMs: positiveInt(
+				env?.OCR_HEALTH_CHECK_INTERVAL_MS,
+				DEFAULT_POOL_OPTIONS.healthCheckIntervalMs
+			)
+		}
+	};
+}
+
+/**
+ * Create a provider instance from a config
+ */
+export function createOcrProvider(config: OcrProviderConfig): OcrProvider {
+	switch (config.provider) {
+		case 'ollama':
+			return createOllamaProvider(config);
+		case 'openai':
+			return createOpenAIProvider(config);
+		case 'mock':
+			return createMockProvider();
+	}
+}
+
+/**
+ * Create a pooled provider with one underlying provider per endpoint
+ */
+export function createOcrPool(config: OcrPoolConfig): OcrProvider {
+	return createPooledProvider(
+		config.endpoints.map(({ url, weight }) => ({
+			url,
+			weight,
+			provider: createOcrProvider({
+				provider: config.provider,
+				endpoint: url,
+				apiKey: config.apiKey
+			})
+		})),
+		config.options
+	);
+}
+
+// Pools are reused per configuration so endpoint health survives between requests
+const pools = new Map<string, OcrProvider>();
+
+/**
+ * Shared provider for the environment, with retries and failover across OCR_ENDPOINTS
+ */
+export function getOcrProvider(env: OcrProviderEnv | undefined): OcrProvider {
+	const config = resolveOcrPoolConfig(env);
+	const key = JSON.stringify(config);
+
+	let pool = pools.get(key);
+	if (!pool) {
+		pool = createOcrPool(config);
+		pools.set(key, pool);
+	}
+	return pool;
+}
@@ -0,0 +1,99 @@
+/**
+ * Mock OCR provider
+ * Returns deterministic text derived from the image bytes without calling a model.
+ * Intended for local development and end-to-end tests on machines without a GPU.
+ */
+
+import type { OcrProvider, OcrRequest } from './types';
+
+/**
+ * FNV-1a hash, enough to give each distinct image a stable fingerprint
+ */
+function fingerprint(input: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < input.length; i++) {
+		hash ^= input.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Smallest value matching a JSON Schema, for extraction requests
+ */
+function mockValue(schema: Record<string, unknown>): unknown {
+	if (schema.const !== undefined) return schema.const;
+	if (Array.isArray(schema.enum)) return schema.enum[0];
+	if (Array.isArray(schema.anyOf)) return mockValue(schema.anyOf[0] as Record<string, unknown>);
+
+	const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+	switch (type ?? (schema.properties ? 'object' : null)) {
+		case 'string':
+			return schema.format === 'date'
+				? '2024-01-01'
+				: schema.format === 'date-time'
+					? '2024-01-01T00:00:00Z'
+					: schema.format === 'email'
+						? 'mock@example.com'
+						: 'MOCK';
+		case 'number':
+		case 'integer':
+			return typeof schema.minimum === 'number' ? schema.minimum : 0;
+		case 'boolean':
+			return false;
+		case 'array':
+			return [];
+		case 'object': {
+			const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+			return Object.fromEntries(
+				Object.entries(properties).map(([key, property]) => [key, mockValue(property)])
+			);
+		}
+		default:
+			return null;
+	}
+}
+
+function mockText(req: OcrRequest): string {
+	if (req.jsonSchema) {
+		return JSON.stringify(mockValue(req.jsonSchema));
+	}
+
+	const image = req.imageBase64 ?? '';
+	const id = fingerprint(image);
+	return [
+		`MOCK OCR RESULT ${id}`,
+		'',
+		'The quick brown fox jumps over the lazy dog.',
+		`Model: ${req.model}`,
+		`Image size: ${image.length} base64 characters`
+	].join('\n');
+}
+
+export function createMockProvider(): OcrProvider {
+	return {
+		name: 'mock',
+
+		async generate(req) {
+			if (req.signal?.aborted) {
+				throw new Error('Processing cancelled');
+			}
+			return mockText(req);
+		},
+
+		async *stream(req) {
+			// Emit word by word so streaming consumers see multiple chunks
+			const parts = mockText(req).split(/(?<=\s)/);
+			for (const part of parts) {
+				if (req.signal?.aborted) {
+					throw new Error('Processing cancelled');
+				}
+				yield part;
+			}
+		},
+
+		async probe() {
+			return true;
+		}
+	};
+}
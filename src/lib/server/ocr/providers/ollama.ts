@@ -0,0 +1,90 @@
+/**
+ * Ollama OCR provider
+ * Talks to the native `/api/generate` endpoint
+ */
+
+import type { OcrProvider, OcrProviderConfig, OcrRequest } from './types';
+import { readLines } from './stream';
+import { OcrProviderError, responseError } from './errors';
+
+interface OllamaGenerateChunk {
+	response?: string;
+	done?: boolean;
+	logprobs?: { token: string; logprob: number }[] | null; // Only from servers that support them
+}
+
+function reportLogprobs(req: OcrRequest, chunk: OllamaGenerateChunk) {
+	if (req.onLogprobs && chunk.logprobs?.length) {
+		req.onLogprobs(chunk.logprobs.map((entry) => entry.logprob));
+	}
+}
+
+export function createOllamaProvider(config: OcrProviderConfig): OcrProvider {
+	const endpoint = config.endpoint.replace(/\/+$/, '');
+
+	const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+	if (config.apiKey) {
+		headers.Authorization = `Bearer ${config.apiKey}`;
+	}
+
+	async function request(req: OcrRequest, stream: boolean): Promise<Response> {
+		const response = await fetch(endpoint + '/api/generate', {
+			method: 'POST',
+			headers,
+			body: JSON.stringify({
+				model: req.model,
+				prompt: req.prompt,
+				images: req.imageBase64 ? [req.imageBase64] : undefined,
+				format: req.jsonSchema,
+				stream,
+				options: req.options,
+				logprobs: req.onLogprobs ? true : undefined,
+				keep_alive: '30m'
+			}),
+			signal: req.signal
+		});
+
+		if (!response.ok) {
+			throw await responseError('Ollama API', response);
+		}
+
+		return response;
+	}
+
+	return {
+		name: 'ollama',
+
+		async generate(req) {
+			const response = await request(req, false);
+			const data = (await response.json()) as OllamaGenerateChunk;
+			reportLogprobs(req, data);
+			return (data.response || '').trim();
+		},
+
+		async *stream(req) {
+			const response = await request(req, true);
+			if (!response.body) {
+				throw new OcrProviderError('No response body from Ollama', { retryable: true });
+			}
+
+			// Ollama streams newline-delimited JSON objects
+			for await (const line of readLines(response.body)) {
+				try {
+					const chunk = JSON.parse(line) as OllamaGenerateChunk;
+					reportLogprobs(req, chunk);
+					if (chunk.response) {
+						yield chunk.response;
+					}
+				} catch {
+					// Skip unparseable lines
+				}
+			}
+		},
+
+		async probe(signal) {
+			// Lists installed models - cheap and only answers once the server is up
+			const response = await fetch(endpoint + '/api/tags', { headers, signal });
+			return response.ok;
+		}
+	};
+}
@@ -0,0 +1,125 @@
+/**
+ * OpenAI-compatible OCR provider
+ * Works with any server exposing `/chat/completions` with vision input
+ * (vLLM, llama.cpp server, LM Studio, OpenAI itself, ...).
+ * The endpoint is the API base URL, e.g. `https://gpu.example.com/v1`.
+ */
+
+import type { OcrProvider, OcrProviderConfig, OcrRequest } from './types';
+import { readLines } from './stream';
+import { OcrProviderError, responseError } from './errors';
+
+interface ChatCompletionLogprobs {
+	content?: { token: string; logprob: number }[] | null;
+}
+
+interface ChatCompletionResponse {
+	choices?: { message?: { content?: string | null }; logprobs?: ChatCompletionLogprobs | null }[];
+}
+
+interface ChatCompletionChunk {
+	choices?: { delta?: { content?: string | null }; logprobs?: ChatCompletionLogprobs | null }[];
+}
+
+function reportLogprobs(req: OcrRequest, logprobs: ChatCompletionLogprobs | null | undefined) {
+	if (req.onLogprobs && logprobs?.content?.length) {
+		req.onLogprobs(logprobs.content.map((entry) => entry.logprob));
+	}
+}
+
+export function createOpenAIProvider(config: OcrProviderConfig): OcrProvider {
+	const endpoint = config.endpoint.replace(/\/+$/, '');
+
+	const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+	if (config.apiKey) {
+		headers.Authorization = `Bearer ${config.apiKey}`;
+	}
+
+	async function request(req: OcrRequest, stream: boolean): Promise<Response> {
+		const response = await fetch(endpoint + '/chat/completions', {
+			method: 'POST',
+			headers,
+			body: JSON.stringify({
+				model: req.model,
+				messages: [
+					{
+						role: 'user',
+						content: [
+							{ type: 'text', text: req.prompt },
+							...(req.imageBase64
+								? [
+										{
+											type: 'image_url',
+											image_url: {
+												url: `data:${req.mimeType || 'image/jpeg'};base64,${req.imageBase64}`
+											}
+										}
+									]
+								: [])
+						]
+					}
+				],
+				response_format: req.jsonSchema
+					? { type: 'json_schema', json_schema: { name: 'extraction', schema: req.jsonSchema } }
+					: undefined,
+				stream,
+				// Map the Ollama-style options onto the chat completions parameters
+				temperature: req.options.temperature,
+				top_p: req.options.top_p,
+				max_tokens: req.options.num_predict,
+				logprobs: req.onLogprobs ? true : undefined
+			}),
+			signal: req.signal
+		});
+
+		if (!response.ok) {
+			throw await responseError('OpenAI-compatible API', response);
+		}
+
+		return response;
+	}
+
+	return {
+		name: 'openai',
+
+		async generate(req) {
+			const response = await request(req, false);
+			const data = (await response.json()) as ChatCompletionResponse;
+			reportLogprobs(req, data.choices?.[0]?.logprobs);
+			return (data.choices?.[0]?.message?.content || '').trim();
+		},
+
+		async *stream(req) {
+			const response = await request(req, true);
+			if (!response.body) {
+				throw new OcrProviderError('No response body from OpenAI-compatible API', {
+					retryable: true
+				});
+			}
+
+			// Server-sent events: `data: {...}` lines terminated by `data: [DONE]`
+			for await (const line of readLines(response.body)) {
+				if (!line.startsWith('data:')) continue;
+
+				const payload = line.slice(5).trim();
+				if (payload === '[DONE]') break;
+
+				try {
+					const chunk = JSON.parse(payload) as ChatCompletionChunk;
+					reportLogprobs(req, chunk.choices?.[0]?.logprobs);
+					const text = chunk.choices?.[0]?.delta?.content;
+					if (text) {
+						yield text;
+					}
+				} catch {
+					// Skip unparseable lines
+				}
+			}
+		},
+
+		async probe(signal) {
+			const response = await fetch(endpoint + '/models', { headers, signal });
+			return response.ok;
+		}
+	};
+}
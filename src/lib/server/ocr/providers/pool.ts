@@ -0,0 +1,273 @@
+/**
+ * OCR endpoint pool
+ * Spreads requests over several backend endpoints by weight, probes their health when a
+ * request finds it stale, retries transient failures with exponential backoff and fails
+ * over to healthy endpoints. Nothing is probed between requests.
+ */
+
+import type { OcrBackendEvent, OcrProvider, OcrRequest } from './types';
+import { OcrProviderError, toProviderError } from './errors';
+
+export interface PoolEndpoint {
+	url: string;
+	weight: number; // Relative share of traffic
+	provider: OcrProvider; // Provider bound to this endpoint
+}
+
+export interface PoolOptions {
+	maxAttempts: number; // Attempts per request across all endpoints
+	timeoutMs: number; // Until the first chunk (streaming) or the full response
+	healthCheckIntervalMs: number; // How long a probe result stays fresh
+	baseDelayMs: number; // First backoff delay, doubled on every retry
+	maxDelayMs: number;
+}
+
+export const DEFAULT_POOL_OPTIONS: PoolOptions = {
+	maxAttempts: 3,
+	timeoutMs: 300000,
+	healthCheckIntervalMs: 30000,
+	baseDelayMs: 500,
+	maxDelayMs: 8000
+};
+
+const PROBE_TIMEOUT_MS = 5000;
+
+interface EndpointState extends PoolEndpoint {
+	healthy: boolean;
+	checkedAt: number; // Last probe or request outcome, 0 = never
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new Error('Processing cancelled'));
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			reject(new Error('Processing cancelled'));
+		};
+		const timeoutId = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Signal that aborts with the caller's signal or after `ms`
+ */
+function withTimeout(signal: AbortSignal | undefined, ms: number) {
+	const controller = new AbortController();
+	let timedOut = false;
+
+	const timeoutId = setTimeout(() => {
+		timedOut = true;
+		controller.abort();
+	}, ms);
+
+	if (signal?.aborted) {
+		controller.abort();
+	} else {
+		signal?.addEventListener('abort', () => controller.abort(), { once: true });
+	}
+
+	// Settles the race even if a provider ignores the signal
+	const aborted = new Promise<never>((_, reject) => {
+		controller.signal.addEventListener('abort', () => reject(new Error('Request aborted')), {
+			once: true
+		});
+	});
+
+	return {
+		signal: controller.signal,
+		aborted,
+		timedOut: () => timedOut,
+		// Stops the timer only - caller cancellation keeps propagating
+		clear: () => clearTimeout(timeoutId)
+	};
+}
+
+export function createPooledProvider(
+	endpoints: PoolEndpoint[],
+	options: PoolOptions = DEFAULT_POOL_OPTIONS
+): OcrProvider {
+	if (endpoints.length === 0) {
+		throw new Error('OCR endpoint pool needs at least one endpoint');
+	}
+
+	const states: EndpointState[] = endpoints.map((endpoint) => ({
+		...endpoint,
+		healthy: true,
+		checkedAt: 0
+	}));
+	let probing: Promise<void> | null = null;
+
+	async function probeEndpoint(state: EndpointState): Promise<void> {
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+		let healthy = false;
+
+		try {
+			healthy = await state.provider.probe(controller.signal);
+		} catch {
+			healthy = false;
+		} finally {
+			clearTimeout(timeoutId);
+		}
+
+		if (healthy !== state.healthy) {
+			console.log(`[OCR Pool] ${state.url} is now ${healthy ? 'healthy' : 'unhealthy'}`);
+		}
+		state.healthy = healthy;
+		state.checkedAt = Date.now();
+	}
+
+	/**
+	 * Re-probe endpoints whose health is stale. Probes run in the background
+	 * unless no endpoint is known to be healthy.
+	 */
+	async function refreshHealth(): Promise<void> {
+		// A single endpoint has nothing to route around
+		if (states.length === 1) return;
+
+		const now = Date.now();
+		const stale = states.filter((s) => now - s.checkedAt >= options.healthCheckIntervalMs);
+
+		if (stale.length > 0 && !probing) {
+			probing = Promise.all(stale.map(probeEndpoint))
+				.then(() => undefined)
+				.finally(() => {
+					probing = null;
+				});
+		}
+
+		if (probing && !states.some((s) => s.healthy)) {
+			await probing;
+		}
+	}
+
+	/**
+	 * Weighted random choice among healthy endpoints not tried yet,
+	 * falling back to unhealthy ones rather than giving up
+	 */
+	function pick(tried: Set<EndpointState>): EndpointState {
+		const untried = states.filter((s) => !tried.has(s));
+		const healthy = untried.filter((s) => s.healthy);
+		const candidates = healthy.length > 0 ? healthy : untried.length > 0 ? untried : states;
+
+		const totalWeight = candidates.reduce((sum, s) => sum + s.weight, 0);
+		let roll = Math.random() * totalWeight;
+		for (const candidate of candidates) {
+			roll -= candidate.weight;
+			if (roll < 0) return candidate;
+		}
+		return candidates[candidates.length - 1];
+	}
+
+	// Exponential backoff with jitter
+	function backoff(attempt: number): number {
+		const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+		return Math.round(delay / 2 + (Math.random() * delay) / 2);
+	}
+
+	async function withRetries<T>(
+		req: OcrRequest,
+		run: (state: EndpointState, request: OcrRequest) => Promise<T>
+	): Promise<T> {
+		await refreshHealth();
+
+		const tried = new Set<EndpointState>();
+		let state = pick(tried);
+
+		for (let attempt = 1; ; attempt++) {
+			tried.add(state);
+			const timeout = withTimeout(req.signal, options.timeoutMs);
+
+			try {
+				const result = await Promise.race([
+					run(state, { ...req, signal: timeout.signal }),
+					timeout.aborted
+				]);
+				state.healthy = true;
+				state.checkedAt = Date.now();
+				return result;
+			} catch (error) {
+				// Cancelled by the caller - not a backend problem
+				if (req.signal?.aborted) throw error;
+
+				const providerError = timeout.timedOut()
+					? new OcrProviderError(`Request timed out after ${options.timeoutMs}ms`, {
+							retryable: true
+						})
+					: toProviderError(error);
+
+				if (!providerError.retryable || attempt >= options.maxAttempts) {
+					throw providerError;
+				}
+
+				// Skipped by routing until a probe finds it healthy again
+				state.healthy = false;
+				state.checkedAt = Date.now();
+
+				const next = pick(tried);
+				const event: OcrBackendEvent = {
+					type: next === state ? 'retry' : 'failover',
+					endpoint: state.url,
+					nextEndpoint: next.url,
+					attempt,
+					error: providerError.message.substring(0, 200),
+					delayMs: backoff(attempt)
+				};
+
+				console.warn(
+					`[OCR Pool] ${event.type} after attempt ${attempt}: ${event.endpoint} -> ${event.nextEndpoint} in ${event.delayMs}ms:`,
+					providerError.message
+				);
+				req.onEvent?.(event);
+
+				await sleep(event.delayMs, req.signal);
+				state = next;
+			} finally {
+				timeout.clear();
+			}
+		}
+	}
+
+	return {
+		name: endpoints[0].provider.name,
+
+		generate(req) {
+			return withRetries(req, (state, request) => state.provider.generate(request));
+		},
+
+		async *stream(req) {
+			// Failures before the first chunk can still be retried elsewhere
+			const { iterator, first } = await withRetries(req, async (state, request) => {
+				const iterator = state.provider.stream(request)[Symbol.asyncIterator]();
+				return { iterator, first: await iterator.next() };
+			});
+
+			try {
+				if (first.done) return;
+				yield first.value;
+
+				// Once text has been yielded the request cannot be replayed, errors propagate as-is
+				while (true) {
+					const next = await iterator.next();
+					if (next.done) return;
+					yield next.value;
+				}
+			} finally {
+				await iterator.return?.();
+			}
+		},
+
+		async probe() {
+			await Promise.all(states.map(probeEndpoint));
+			return states.some((s) => s.healthy);
+		}
+	};
+}
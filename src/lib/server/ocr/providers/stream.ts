@@ -0,0 +1,41 @@
+/**
+ * Streaming helpers shared by the HTTP-based providers
+ */
+
+/**
+ * Split a byte stream into trimmed, non-empty text lines.
+ * The reader lock is released even if the consumer stops early.
+ */
+export async function* readLines(
+	body: ReadableStream<Uint8Array>
+): AsyncGenerator<string, void, undefined> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || '';
+
+			for (const line of lines) {
+				const trimmedLine = line.trim();
+				if (trimmedLine) {
+					yield trimmedLine;
+				}
+			}
+		}
+
+		// Flush whatever is left after the final newline
+		buffer += decoder.decode();
+		if (buffer.trim()) {
+			yield buffer.trim();
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
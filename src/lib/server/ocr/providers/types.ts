@@ -0,0 +1,83 @@
+/**
+ * OCR provider types
+ *
+ * Shared between the SvelteKit server and the OCRSession Durable Object,
+ * so this module must not import anything from `$lib` or `$env`.
+ */
+
+export type OcrProviderName = 'ollama' | 'openai' | 'mock';
+
+/**
+ * Sampling options in Ollama's vocabulary.
+ * Providers with a different API map the subset they support.
+ */
+export interface OcrOptions {
+	temperature?: number;
+	num_predict?: number;
+	num_ctx?: number;
+	num_gpu?: number;
+	main_gpu?: number;
+	num_thread?: number;
+	repeat_penalty?: number;
+	repeat_last_n?: number;
+	top_k?: number;
+	top_p?: number;
+}
+
+/**
+ * A single OCR request for one image, or a text-only follow-up such as field extraction
+ */
+export interface OcrRequest {
+	model: string;
+	prompt: string;
+	imageBase64?: string; // Omitted for text-only requests
+	mimeType?: string; // Defaults to image/jpeg
+	options: OcrOptions;
+	jsonSchema?: Record<string, unknown>; // Constrain the answer to JSON matching this schema, where the backend supports it
+	signal?: AbortSignal;
+	onEvent?: (event: OcrBackendEvent) => void; // Retry and failover notifications
+	onLogprobs?: (logprobs: number[]) => void; // Token log-probabilities, if the backend returns them
+}
+
+/**
+ * A retry or failover performed by the endpoint pool
+ */
+export interface OcrBackendEvent {
+	type: 'retry' | 'failover'; // Failover when the next attempt goes to another endpoint
+	endpoint: string; // Endpoint that failed
+	nextEndpoint: string; // Endpoint used for the next attempt
+	attempt: number; // 1-based attempt that failed
+	error: string;
+	delayMs: number; // Backoff before the next attempt
+}
+
+/**
+ * Configuration used to construct a provider
+ */
+export interface OcrProviderConfig {
+	provider: OcrProviderName;
+	endpoint: string;
+	apiKey?: string;
+}
+
+/**
+ * A backend capable of extracting text from images
+ */
+export interface OcrProvider {
+	readonly name: OcrProviderName;
+
+	/**
+	 * Run OCR and resolve with the full text once the model is done
+	 */
+	generate(request: OcrRequest): Promise<string>;
+
+	/**
+	 * Run OCR and yield text chunks as the model produces them
+	 */
+	stream(request: OcrRequest): AsyncGenerator<string, void, undefined>;
+
+	/**
+	 * Check that the backend is reachable and ready to serve requests
+	 */
+	probe(signal?: AbortSignal): Promise<boolean>;
+}
@@ -0,0 +1,48 @@
+/**
+ * PDF text layers
+ * Born-digital PDF pages carry their text, which is taken as it is instead of reading the
+ * rendered page with the model. Scanned pages have no text layer, or only a few stray
+ * characters or glyphs without a Unicode mapping, and are read by the model.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import { MAX_TEXT_LAYER_LENGTH } from '../../utils/text-layer';
+
+// Fewer visible characters than this is a page number or a stamp, not the page's text
+const MIN_VISIBLE_CHARACTERS = 20;
+
+// Share of visible characters that may be unreadable
+const MAX_UNREADABLE_SHARE = 0.1;
+
+// Glyphs without a Unicode mapping come out as replacement, private use or control characters
+const UNREADABLE_CHARACTERS = /[\uFFFD\p{Co}\p{Cc}]/gu;
+
+/**
+ * Tidy extracted text: one space between words, no trailing spaces, at most one blank line
+ */
+function normalizeTextLayer(text: string): string {
+	return text
+		.replace(/\r\n?/g, '\n')
+		.split('\n')
+		.map((line) => line.replace(/[ \t\f\v\u00A0]+/g, ' ').trim())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * The text of a page's text layer, or null when the page has to be read by the model
+ */
+export function usableTextLayer(text: string | null | undefined): string | null {
+	if (!text || text.length > MAX_TEXT_LAYER_LENGTH) return null;
+
+	const normalized = normalizeTextLayer(text);
+	const visible = normalized.replace(/\s/g, '');
+	if (visible.length < MIN_VISIBLE_CHARACTERS) return null;
+
+	const unreadable = visible.match(UNREADABLE_CHARACTERS)?.length ?? 0;
+	if (unreadable / visible.length > MAX_UNREADABLE_SHARE) return null;
+
+	return normalized;
+}
@@ -0,0 +1,79 @@
+/**
+ * Translation after OCR
+ * A second, text-only pass over a page's extracted text that translates it into the
+ * language requested with the scan, keeping the layout and formatting of the original.
+ *
+ * Shared with the OCRSession Durable Object, so only relative imports are allowed here.
+ */
+
+import type { OcrProvider } from './providers/types';
+import type { OcrModel } from '../config/models';
+import { cleanupOutput, type OutputFormat } from './format';
+import { getLanguageName, LANGUAGES, parseLanguages } from './language';
+
+export interface TranslationResult {
+	text: string | null; // Translated text, null when the pass failed
+	error: string | null;
+}
+
+const FORMAT_RULES: Record<OutputFormat, string> = {
+	text: 'Keep the line breaks and layout of the original.',
+	markdown: 'Keep the Markdown formatting (headings, lists, tables) exactly as it is.',
+	html: 'Keep every HTML tag exactly as it is and only translate the text between tags.'
+};
+
+/**
+ * Whether a language code can be used as a translation target
+ */
+export function isTranslationLanguage(code: string): boolean {
+	return Object.hasOwn(LANGUAGES, code);
+}
+
+function buildTranslationPrompt(text: string, targetLanguage: string, format: OutputFormat) {
+	return `Translation task: Translate the document text below into ${getLanguageName(targetLanguage)}. Rules: Output ONLY the translation. Do NOT add commentary, notes or the original text. ${FORMAT_RULES[format]} Leave names, numbers, amounts, dates, codes and addresses unchanged.
+
+Document text:
+"""
+${text}
+"""`;
+}
+
+/**
+ * Translate a page's text, skipping pages already written in the target language
+ */
+export async function translateText(
+	provider: OcrProvider,
+	model: OcrModel,
+	text: string,
+	options: {
+		targetLanguage: string;
+		outputFormat: OutputFormat;
+		language?: string | null; // Detected languages of the text
+		signal?: AbortSignal;
+	}
+): Promise<TranslationResult> {
+	if (!text.trim()) {
+		return { text: '', error: null };
+	}
+
+	// Only the main language counts, a quote in another language does not need a pass
+	if (parseLanguages(options.language)[0] === options.targetLanguage) {
+		return { text, error: null };
+	}
+
+	try {
+		const output = await provider.generate({
+			model: model.id,
+			prompt: buildTranslationPrompt(text, options.targetLanguage, options.outputFormat),
+			options: model.options,
+			signal: options.signal
+		});
+
+		return { text: cleanupOutput(output, options.outputFormat), error: null };
+	} catch (error) {
+		return {
+			text: null,
+			error: error instanceof Error ? error.message : 'Translation failed'
+		};
+	}
+}
@@ -0,0 +1,548 @@
+/**
+ * API scan service
+ * Reads the file and settings of a REST OCR request, and stores the scans that the
+ * OCRSession Durable Object reads, for the OCR endpoint and the job API
+ */
+
+import { db } from '$lib/server/db';
+import { scannedImage, scannedPage } from '$lib/server/db/schema';
+import type { Plan } from '$lib/server/config/plans';
+import { generateId } from '$lib/server/utils';
+import { buildPrompt } from '$lib/server/ocr';
+import {
+	DEFAULT_OCR_MODEL,
+	checkOcrModelAccess,
+	getOcrModel,
+	isKnownOcrModel,
+	type OcrModel
+} from '$lib/server/config/models';
+import { parseLanguages } from '$lib/server/ocr/language';
+import { isOutputFormat, OUTPUT_FORMATS, type OutputFormat } from '$lib/server/ocr/format';
+import { parseJsonSchema, type JsonSchema } from '$lib/server/ocr/extraction';
+import { isTranslationLanguage } from '$lib/server/ocr/translation';
+import { parsePageLayout } from '$lib/server/ocr/layout';
+import { readImageSize } from '$lib/server/image/size';
+import { combineTemplatePrompt, getTemplate } from '$lib/server/services/templates';
+import { decodeBase64File, fetchRemoteFile } from '$lib/server/services/remote-files';
+import { isPageRange, normalizePageRange } from '$lib/utils/page-range';
+
+// Maximum file size (50MB)
+export const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+// Allowed MIME types
+export const ALLOWED_MIME_TYPES = [
+	'image/jpeg',
+	'image/png',
+	'image/gif',
+	'image/webp',
+	'image/heic',
+	'image/heif',
+	'image/tiff',
+	'image/bmp',
+	'application/pdf'
+];
+
+// Formats read page by page in the OCRSession Durable Object, which decodes them
+export const DOCUMENT_MIME_TYPES = ['application/pdf', 'image/tiff', 'image/heic', 'image/heif'];
+
+// Fields of a JSON body passed on like the fields of a multipart body
+const JSON_BODY_FIELDS = [
+	'prompt',
+	'model',
+	'outputFormat',
+	'schema',
+	'templateId',
+	'translateTo',
+	'layout',
+	'pages'
+] as const;
+
+// Settings of an API scan, checked against the user's plan
+export interface ApiScanSettings {
+	model: OcrModel;
+	outputFormat: OutputFormat;
+	scanPrompt: string | null; // As stored on the scan
+	prompt: string; // As sent to the model
+	extractionSchema: JsonSchema | null;
+	templateId: string | null;
+	translateTo: string | null;
+	layout: boolean;
+	pageRange: string | null; // PDF pages to read, null for every page
+}
+
+export type ApiScanRequestResult =
+	| { success: true; file: File; settings: ApiScanSettings }
+	| { success: false; error: string; statusCode: number };
+
+// A scan stored for the OCRSession Durable Object to read
+export interface StoredScan {
+	imageId: string;
+	imageKey: string;
+	isPdf: boolean;
+	pageCount: number;
+	pageImages: string[] | null; // Rendered page images, null for a plain image
+	textLayerPages: number; // Pages taken from a PDF text layer instead of read by the model
+}
+
+export type StoredScanResult =
+	| { success: true; scan: StoredScan }
+	| { success: false; error: string; statusCode: number };
+
+// A rendered page image, stored in R2 next to the original file
+interface RenderedPage {
+	pageNumber: number; // In the file, not in the selection
+	imageKey: string;
+	width: number;
+	height: number;
+	text: string | null; // Usable text layer, the page skips OCR when set
+}
+
+// A scan with its page rows, in page order
+export type ScanWithPages = typeof scannedImage.$inferSelect & {
+	pages: (typeof scannedPage.$inferSelect)[];
+};
+
+/**
+ * The fields of a JSON body as the multipart form they stand for, with the file downloaded
+ * from url or decoded from data
+ */
+async function parseJsonBody(
+	request: Request,
+	maxBytes: number
+): Promise<{ success: true; formData: FormData } | { success: false; error: string }> {
+	let body: Record<string, unknown>;
+	try {
+		body = await request.json();
+	} catch {
+		return { success: false, error: 'Invalid JSON body' };
+	}
+	if (!body || typeof body !== 'object' || Array.isArray(body)) {
+		return { success: false, error: 'Invalid JSON body. Expected an object.' };
+	}
+
+	const { url, data, fileName, mimeType } = body;
+	for (const [name, value] of Object.entries({ url, data, fileName, mimeType })) {
+		if (value !== undefined && value !== null && typeof value !== 'string') {
+			return { success: false, error: `Invalid ${name}: expected a string` };
+		}
+	}
+	if (url && data) {
+		return { success: false, error: 'Give either url or data, not both' };
+	}
+
+	let result;
+	if (typeof url === 'string' && url) {
+		result = await fetchRemoteFile(url, {
+			maxBytes,
+			allowedMimeTypes: ALLOWED_MIME_TYPES,
+			fileName: fileName as string | null | undefined
+		});
+	} else if (typeof data === 'string' && data) {
+		if (typeof fileName !== 'string' || !fileName.trim()) {
+			return { success: false, error: 'Missing required field: fileName' };
+		}
+		result = decodeBase64File(data, {
+			fileName: fileName.trim(),
+			mimeType: mimeType as string | null | undefined,
+			maxBytes
+		});
+	} else {
+		return { success: false, error: 'Missing required field: url or data' };
+	}
+
+	if (!result.success) {
+		return { success: false, error: result.error };
+	}
+
+	const formData = new FormData();
+	formData.set('file', result.file);
+
+	for (const name of JSON_BODY_FIELDS) {
+		const value = body[name];
+		if (value === undefined || value === null) continue;
+
+		if (typeof value === 'string') {
+			formData.set(name, value);
+		} else if (name === 'schema' && typeof value === 'object') {
+			formData.set(name, JSON.stringify(value));
+		} else if (name === 'layout' && typeof value === 'boolean') {
+			formData.set(name, String(value));
+		} else {
+			return { success: false, error: `Invalid ${name}: expected a string` };
+		}
+	}
+
+	return { success: true, formData };
+}
+
+/**
+ * The file and settings of a multipart or JSON request body, checked against the user's
+ * plan. Template settings are overridden by the fields given explicitly.
+ */
+export async function readScanRequest(
+	request: Request,
+	userId: string,
+	plan: Plan
+): Promise<ApiScanRequestResult> {
+	// Parse multipart form data, or a JSON body standing for it
+	let formData: FormData;
+	if (request.headers.get('Content-Type')?.toLowerCase().startsWith('application/json')) {
+		// Downloads and base64 files stop at the smaller of the two size limits
+		const parsed = await parseJsonBody(
+			request,
+			Math.min(MAX_FILE_SIZE, plan.maxImageSizeMb * 1024 * 1024)
+		);
+		if (!parsed.success) {
+			return { success: false, error: parsed.error, statusCode: 400 };
+		}
+		formData = parsed.formData;
+	} else {
+		try {
+			formData = await request.formData();
+		} catch {
+			return {
+				success: false,
+				error: 'Invalid request body. Expected multipart/form-data or application/json.',
+				statusCode: 400
+			};
+		}
+	}
+
+	const file = formData.get('file');
+	const customPrompt = formData.get('prompt');
+	const requestedModel = formData.get('model');
+	const requestedFormat = formData.get('outputFormat');
+	const requestedSchema = formData.get('schema');
+	const templateId = formData.get('templateId');
+	const requestedTranslation = formData.get('translateTo');
+	const requestedLayout = formData.get('layout');
+	const requestedPages = formData.get('pages');
+
+	if (!file || !(file instanceof File)) {
+		return { success: false, error: 'Missing required field: file', statusCode: 400 };
+	}
+
+	const template =
+		typeof templateId === 'string' && templateId.trim()
+			? await getTemplate(userId, templateId.trim())
+			: null;
+	if (typeof templateId === 'string' && templateId.trim() && !template) {
+		return { success: false, error: 'Template not found', statusCode: 404 };
+	}
+
+	// Validate model selection against the registry and the user's plan
+	const modelId =
+		typeof requestedModel === 'string' && requestedModel.trim()
+			? requestedModel.trim()
+			: (template?.model ?? DEFAULT_OCR_MODEL);
+	const modelAccess = checkOcrModelAccess(modelId, plan.id);
+	if (!modelAccess.allowed) {
+		return {
+			success: false,
+			error: modelAccess.error!,
+			statusCode: isKnownOcrModel(modelId) ? 403 : 400
+		};
+	}
+
+	const outputFormat =
+		typeof requestedFormat === 'string' && requestedFormat.trim()
+			? requestedFormat.trim()
+			: (template?.outputFormat ?? 'text');
+	if (!isOutputFormat(outputFormat)) {
+		return {
+			success: false,
+			error: `Invalid outputFormat: ${outputFormat}. Allowed: ${OUTPUT_FORMATS.join(', ')}`,
+			statusCode: 400
+		};
+	}
+
+	let extractionSchema: JsonSchema | null = template?.schema ?? null;
+	if (typeof requestedSchema === 'string' && requestedSchema.trim()) {
+		try {
+			extractionSchema = parseJsonSchema(requestedSchema);
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Invalid schema',
+				statusCode: 400
+			};
+		}
+	}
+
+	const translateTo =
+		typeof requestedTranslation === 'string' && requestedTranslation.trim()
+			? requestedTranslation.trim().toLowerCase()
+			: null;
+	if (translateTo && !isTranslationLanguage(translateTo)) {
+		return {
+			success: false,
+			error: `Unsupported translateTo language: ${translateTo}`,
+			statusCode: 400
+		};
+	}
+
+	const pageRange =
+		typeof requestedPages === 'string' && requestedPages.trim()
+			? normalizePageRange(requestedPages)
+			: null;
+	if (pageRange && !isPageRange(pageRange)) {
+		return {
+			success: false,
+			error: `Invalid pages: ${requestedPages}. Use pages and ranges like 1-3,7,10-`,
+			statusCode: 400
+		};
+	}
+
+	// Validate file type
+	if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+		return {
+			success: false,
+			error: `Unsupported file type: ${file.type}. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`,
+			statusCode: 400
+		};
+	}
+
+	// Validate file size
+	if (file.size > MAX_FILE_SIZE) {
+		return {
+			success: false,
+			error: `File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+			statusCode: 400
+		};
+	}
+
+	// Check plan-specific file size limit
+	if (file.size > plan.maxImageSizeMb * 1024 * 1024) {
+		return {
+			success: false,
+			error: `File too large for your plan. Maximum size: ${plan.maxImageSizeMb}MB`,
+			statusCode: 400
+		};
+	}
+
+	// Build prompt
+	const userPrompt = typeof customPrompt === 'string' ? customPrompt : null;
+	const scanPrompt = template ? combineTemplatePrompt(template.prompt, userPrompt) : userPrompt;
+
+	return {
+		success: true,
+		file,
+		settings: {
+			model: getOcrModel(modelId),
+			outputFormat,
+			scanPrompt,
+			prompt: buildPrompt(scanPrompt, { outputFormat }),
+			extractionSchema,
+			templateId: template?.id ?? null,
+			translateTo,
+			layout: requestedLayout === 'true',
+			// Only PDF pages are selected, a TIFF is read frame by frame
+			pageRange: file.type === 'application/pdf' ? pageRange : null
+		}
+	};
+}
+
+/**
+ * Store a file in R2 and as a pending scan for the OCRSession Durable Object to read.
+ * PDF, TIFF and HEIC/HEIF files are rendered to page images first, up to maxPages pages;
+ * other images are stored as they are, as the only page of the scan.
+ */
+export async function storeScan(
+	userId: string,
+	file: File,
+	settings: ApiScanSettings,
+	maxPages: number,
+	env: App.Platform['env'] | undefined
+): Promise<StoredScanResult> {
+	const isDocument = DOCUMENT_MIME_TYPES.includes(file.type);
+	const isPdf = file.type === 'application/pdf';
+	const kind = isPdf ? 'PDF' : 'image';
+
+	if (!env?.R2_BUCKET || !env.OCR_SESSION) {
+		return { success: false, error: 'OCR service not configured', statusCode: 503 };
+	}
+
+	const imageId = generateId();
+	const extension = isDocument ? file.type.split('/')[1] : file.name.split('.').pop() || 'jpg';
+	const imageKey = `api/${userId}/${imageId}.${extension}`;
+	const bytes = await file.arrayBuffer();
+	await env.R2_BUCKET.put(imageKey, bytes, {
+		httpMetadata: { contentType: file.type }
+	});
+
+	let pageCount = 1;
+	let pages: { imageKey: string; width?: number; height?: number; text: string | null }[];
+	if (isDocument) {
+		const stub = env.OCR_SESSION.get(env.OCR_SESSION.idFromName(imageId));
+
+		// Too many pages, a selection outside the PDF or an unreadable file fail before
+		// anything is stored
+		const renderResponse = await stub.fetch(
+			new Request('https://do/render-pages', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					sourceKey: imageKey,
+					maxPages,
+					pageRange: settings.pageRange
+				})
+			})
+		);
+		if (!renderResponse.ok) {
+			await env.R2_BUCKET.delete(imageKey);
+			const { error } = (await renderResponse.json().catch(() => ({}))) as { error?: string };
+			return renderResponse.status >= 500
+				? {
+						success: false,
+						error: `Failed to read the ${kind}. Please try again.`,
+						statusCode: 500
+					}
+				: { success: false, error: error || `The ${kind} could not be read`, statusCode: 400 };
+		}
+
+		const rendered = (await renderResponse.json()) as { pageCount: number; pages: RenderedPage[] };
+		pageCount = rendered.pageCount;
+		pages = rendered.pages;
+	} else {
+		// The image itself is page 1
+		const size = readImageSize(new Uint8Array(bytes));
+		pages = [{ imageKey, width: size?.width, height: size?.height, text: null }];
+	}
+
+	const pageImages = isDocument ? pages.map((page) => page.imageKey) : null;
+	const now = new Date();
+
+	await db.insert(scannedImage).values({
+		id: imageId,
+		userId,
+		fileName: file.name,
+		imageKey,
+		originalUrl: `/api/images/${imageKey}`,
+		mimeType: file.type,
+		fileSizeBytes: file.size,
+		width: pages[0]?.width,
+		height: pages[0]?.height,
+		isPdf,
+		pageCount,
+		pageImages,
+		pageRange: settings.pageRange,
+		customPrompt: settings.scanPrompt?.trim() || null,
+		model: settings.model.id,
+		outputFormat: settings.outputFormat,
+		extractionSchema: settings.extractionSchema,
+		templateId: settings.templateId,
+		translateTo: settings.translateTo,
+		layout: settings.layout,
+		status: 'pending',
+		createdAt: now,
+		updatedAt: now
+	});
+
+	await db.insert(scannedPage).values(
+		// Numbered in the scan, so a selection's pages run from 1 like any other scan's
+		pages.map((page, index) => ({
+			id: generateId(),
+			imageId,
+			pageNumber: index + 1,
+			imageKey: page.imageKey,
+			width: page.width,
+			height: page.height,
+			embeddedText: page.text,
+			status: 'pending' as const,
+			createdAt: now,
+			updatedAt: now
+		}))
+	);
+
+	return {
+		success: true,
+		scan: {
+			imageId,
+			imageKey,
+			isPdf,
+			pageCount,
+			pageImages,
+			textLayerPages: pages.filter((page) => page.text).length
+		}
+	};
+}
+
+/**
+ * Have the scan's OCRSession Durable Object read a stored scan. With wait, the response
+ * comes once every page is read; otherwise the pages are read in the background.
+ */
+export async function startScan(
+	userId: string,
+	scan: StoredScan,
+	settings: ApiScanSettings,
+	env: App.Platform['env'] | undefined,
+	wait: boolean
+): Promise<boolean> {
+	if (!env?.OCR_SESSION) {
+		return false;
+	}
+
+	const stub = env.OCR_SESSION.get(env.OCR_SESSION.idFromName(scan.imageId));
+	const response = await stub.fetch(
+		new Request('https://do/process', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				imageId: scan.imageId,
+				userId,
+				imageKey: scan.imageKey,
+				prompt: settings.prompt,
+				model: settings.model.id,
+				outputFormat: settings.outputFormat,
+				extractionSchema: settings.extractionSchema,
+				translateTo: settings.translateTo,
+				layout: settings.layout,
+				isPdf: scan.isPdf,
+				pageCount: scan.pageCount,
+				pageImages: scan.pageImages,
+				wait
+			})
+		})
+	);
+	if (!response.ok) {
+		console.error('[API Scans] Processing failed to start:', await response.text());
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * The result of a finished scan as the REST API returns it
+ */
+export function toApiResult(image: ScanWithPages) {
+	return {
+		text: image.extractedText ?? '',
+		confidence: image.confidence,
+		language: parseLanguages(image.language),
+		model: image.model,
+		outputFormat: image.outputFormat,
+		data: image.extractedData ?? null,
+		extractionError: image.extractionError,
+		translateTo: image.translateTo,
+		translatedText: image.translatedText,
+		translationError: image.translationError,
+		pageCount: image.pageCount,
+		pageRange: image.pageRange,
+		pages: image.pages.map((page) => ({
+			pageNumber: page.pageNumber,
+			status: page.status,
+			text: page.text ?? '',
+			confidence: page.confidence,
+			language: parseLanguages(page.language),
+			translatedText: page.translatedText,
+			layout: parsePageLayout(page.layout),
+			method: page.method,
+			error: page.errorMessage
+		})),
+		processingTimeMs: image.processingTimeMs,
+		fileName: image.fileName,
+		fileSize: image.fileSizeBytes,
+		mimeType: image.mimeType
+	};
+}
@@ -0,0 +1,50 @@
+/**
+ * Document service
+ * Loads a finished scan's text page by page for questions and summaries
+ */
+
+import { db } from '$lib/server/db';
+import { scannedImage, scannedPage } from '$lib/server/db/schema';
+import type { DocumentPage } from '$lib/server/ocr/documents';
+import { eq, and, asc } from 'drizzle-orm';
+
+export type DocumentResult =
+	| { success: true; image: typeof scannedImage.$inferSelect; pages: DocumentPage[] }
+	| { success: false; error: string; statusCode: number };
+
+/**
+ * A user's scan with its page texts, when it has finished and has text to work with
+ */
+export async function getDocument(userId: string, imageId: string): Promise<DocumentResult> {
+	const image = await db.query.scannedImage.findFirst({
+		where: and(eq(scannedImage.id, imageId), eq(scannedImage.userId, userId)),
+		with: {
+			pages: { orderBy: [asc(scannedPage.pageNumber)] }
+		}
+	});
+
+	if (!image) {
+		return { success: false, error: 'Image not found', statusCode: 404 };
+	}
+
+	if (image.status !== 'completed' && image.status !== 'partial') {
+		return { success: false, error: 'The scan has not finished yet', statusCode: 409 };
+	}
+
+	// Scans without page rows are a single page
+	const { pages: pageRows, ...row } = image;
+	const pages: DocumentPage[] =
+		pageRows.length > 0
+			? pageRows
+					.filter((page) => page.text?.trim())
+					.map((page) => ({ pageNumber: page.pageNumber, text: page.text! }))
+			: row.extractedText?.trim()
+				? [{ pageNumber: 1, text: row.extractedText }]
+				: [];
+
+	if (pages.length === 0) {
+		return { success: false, error: 'No text was extracted from this scan', statusCode: 400 };
+	}
+
+	return { success: true, image: row, pages };
+}
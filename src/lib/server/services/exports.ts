@@ -0,0 +1,114 @@
+/**
+ * Export service
+ * Builds the downloadable files of a finished scan: a searchable PDF, hOCR and ALTO XML
+ */
+
+import { db } from '$lib/server/db';
+import { scannedImage, scannedPage } from '$lib/server/db/schema';
+import { parsePageLayout, toAlto, toHocr } from '$lib/server/ocr/layout';
+import { toPlainText } from '$lib/server/ocr/format';
+import { eq, and, asc } from 'drizzle-orm';
+
+export const EXPORT_FORMATS = {
+	pdf: { contentType: 'application/pdf', extension: 'pdf' },
+	hocr: { contentType: 'text/html; charset=utf-8', extension: 'hocr' },
+	alto: { contentType: 'application/xml; charset=utf-8', extension: 'alto.xml' }
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export function isExportFormat(value: string): value is ExportFormat {
+	return Object.hasOwn(EXPORT_FORMATS, value);
+}
+
+export type ExportResult =
+	| { success: true; body: BodyInit | null; contentType: string; fileName: string }
+	| { success: false; error: string; statusCode: number };
+
+/**
+ * A user's finished scan as a file in the given format.
+ * PDFs are built by the scan's OCRSession Durable Object, which can decode every stored
+ * image format.
+ */
+export async function exportScan(
+	userId: string,
+	imageId: string,
+	format: ExportFormat,
+	env: App.Platform['env'] | undefined
+): Promise<ExportResult> {
+	const image = await db.query.scannedImage.findFirst({
+		where: and(eq(scannedImage.id, imageId), eq(scannedImage.userId, userId)),
+		with: {
+			pages: { orderBy: [asc(scannedPage.pageNumber)] }
+		}
+	});
+
+	if (!image) {
+		return { success: false, error: 'Image not found', statusCode: 404 };
+	}
+
+	if (image.status !== 'completed' && image.status !== 'partial') {
+		return { success: false, error: 'The scan has not finished yet', statusCode: 409 };
+	}
+
+	// Scans without page rows are a single page
+	const pages =
+		image.pages.length > 0
+			? image.pages.map((page) => ({
+					pageNumber: page.pageNumber,
+					imageKey: page.imageKey,
+					width: page.width,
+					height: page.height,
+					text: page.text ?? '',
+					layout: parsePageLayout(page.layout)
+				}))
+			: [
+					{
+						pageNumber: 1,
+						imageKey: image.imageKey,
+						width: image.width,
+						height: image.height,
+						text: image.extractedText ?? '',
+						layout: null
+					}
+				];
+
+	const { contentType, extension } = EXPORT_FORMATS[format];
+	const fileName = `${image.fileName.replace(/\.[^.]+$/, '') || 'scan'}.${extension}`;
+
+	if (format === 'hocr' || format === 'alto') {
+		const body = format === 'hocr' ? toHocr(image.fileName, pages) : toAlto(image.fileName, pages);
+		return { success: true, body, contentType, fileName };
+	}
+
+	if (!env?.OCR_SESSION) {
+		return { success: false, error: 'OCR service not configured', statusCode: 503 };
+	}
+
+	const stub = env.OCR_SESSION.get(env.OCR_SESSION.idFromName(image.id));
+	const response = await stub.fetch(
+		new Request('https://do/export-pdf', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				title: image.fileName,
+				// PDF scans keep their original pages, with the text laid over them
+				originalKey: image.isPdf ? image.imageKey : null,
+				pageRange: image.pageRange,
+				pages: pages.map((page) => ({
+					pageNumber: page.pageNumber,
+					imageKey: page.imageKey,
+					text: toPlainText(page.text, image.outputFormat),
+					layout: page.layout
+				}))
+			})
+		})
+	);
+
+	if (!response.ok) {
+		console.error('[Exports] PDF export failed:', response.status, await response.text());
+		return { success: false, error: 'Failed to build the PDF. Please try again.', statusCode: 500 };
+	}
+
+	return { success: true, body: response.body, contentType, fileName };
+}
@@ -0,0 +1,115 @@
+/**
+ * Job service
+ * Follows and cancels API scans read in the background by their OCRSession Durable Object
+ */
+
+import { db } from '$lib/server/db';
+import { scannedImage, scannedPage } from '$lib/server/db/schema';
+import { toApiResult, type ScanWithPages } from '$lib/server/services/api-scans';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+
+// Statuses of a scan whose pages are still being read
+const ACTIVE_STATUSES = ['pending', 'processing'];
+
+export type JobResult =
+	| { success: true; job: ReturnType<typeof toApiJob> }
+	| { success: false; error: string; statusCode: number };
+
+/**
+ * A scan as a job: its status, the pages read so far and, once it has finished, its result
+ */
+function toApiJob(image: ScanWithPages) {
+	const finished = image.status === 'completed' || image.status === 'partial';
+
+	return {
+		id: image.id,
+		status: image.status,
+		progress: {
+			// Failed pages are done too, a partial scan keeps the text of the others
+			pagesDone: image.pages.filter(
+				(page) => page.status === 'completed' || page.status === 'failed'
+			).length,
+			pagesTotal: image.pages.length
+		},
+		error: image.status === 'failed' ? image.errorMessage : null,
+		createdAt: image.createdAt,
+		result: finished ? toApiResult(image) : null
+	};
+}
+
+/**
+ * A user's scan as a job
+ */
+export async function getJob(userId: string, jobId: string): Promise<JobResult> {
+	const image = await db.query.scannedImage.findFirst({
+		where: and(eq(scannedImage.id, jobId), eq(scannedImage.userId, userId)),
+		with: {
+			pages: { orderBy: [asc(scannedPage.pageNumber)] }
+		}
+	});
+
+	if (!image) {
+		return { success: false, error: 'Job not found', statusCode: 404 };
+	}
+
+	return { success: true, job: toApiJob(image) };
+}
+
+/**
+ * Stop reading a user's scan through its OCRSession Durable Object. The pages read so far
+ * keep their text, like a scan cancelled on the dashboard.
+ */
+export async function cancelJob(
+	userId: string,
+	jobId: string,
+	env: App.Platform['env'] | undefined
+): Promise<JobResult> {
+	const image = await db.query.scannedImage.findFirst({
+		where: and(eq(scannedImage.id, jobId), eq(scannedImage.userId, userId)),
+		columns: { id: true, status: true }
+	});
+
+	if (!image) {
+		return { success: false, error: 'Job not found', statusCode: 404 };
+	}
+
+	if (!ACTIVE_STATUSES.includes(image.status)) {
+		return { success: false, error: 'The job has already finished', statusCode: 409 };
+	}
+
+	if (!env?.OCR_SESSION) {
+		return { success: false, error: 'OCR service not configured', statusCode: 503 };
+	}
+
+	const stub = env.OCR_SESSION.get(env.OCR_SESSION.idFromName(image.id));
+	const response = await stub.fetch(
+		new Request('https://do/cancel', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ userId })
+		})
+	);
+
+	if (response.status === 400) {
+		// The Durable Object is not reading the scan, which was left unfinished when it was
+		// restarted, so it is cancelled here
+		const now = new Date();
+		await db
+			.update(scannedImage)
+			.set({ status: 'cancelled', updatedAt: now })
+			.where(and(eq(scannedImage.id, image.id), inArray(scannedImage.status, ACTIVE_STATUSES)));
+		await db
+			.update(scannedPage)
+			.set({ status: 'pending', updatedAt: now })
+			.where(and(eq(scannedPage.imageId, image.id), eq(scannedPage.status, 'processing')));
+	} else if (!response.ok) {
+		console.error('[Jobs] Cancel failed:', response.status, await response.text());
+		return {
+			success: false,
+			error: 'Failed to cancel the job. Please try again.',
+			statusCode: 500
+		};
+	}
+
+	return getJob(userId, jobId);
+}
@@ -0,0 +1,387 @@
+/**
+ * Remote file service
+ * Reads the files sent to the REST API as JSON: downloaded from an HTTPS URL, or decoded
+ * from base64. URLs are only fetched from public addresses, so the API cannot be used to
+ * reach the server's own network.
+ */
+
+export type RemoteFileResult = { success: true; file: File } | { success: false; error: string }; // The request is at fault, a 400
+
+// File extensions of the accepted types, to name downloads and type base64 data
+const MIME_TYPE_EXTENSIONS: Record<string, string> = {
+	'image/jpeg': 'jpg',
+	'image/png': 'png',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/heic': 'heic',
+	'image/heif': 'heif',
+	'image/tiff': 'tiff',
+	'image/bmp': 'bmp',
+	'application/pdf': 'pdf'
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+	...Object.fromEntries(Object.entries(MIME_TYPE_EXTENSIONS).map(([type, ext]) => [ext, type])),
+	jpeg: 'image/jpeg',
+	tif: 'image/tiff'
+};
+
+// Redirects followed, each checked like the first URL
+const MAX_REDIRECTS = 3;
+
+// Time allowed for resolving, connecting and downloading
+const FETCH_TIMEOUT_MS = 30_000;
+
+// DNS-over-HTTPS resolver used to check where a host name points before fetching it
+const DNS_RESOLVER_URL = 'https://cloudflare-dns.com/dns-query';
+
+// Host names of the local machine and of private networks
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+function failure(error: string): RemoteFileResult {
+	return { success: false, error };
+}
+
+function formatSize(bytes: number): string {
+	return `${Math.floor(bytes / 1024 / 1024)}MB`;
+}
+
+/**
+ * Parse a dotted IPv4 address, null for anything else
+ */
+function parseIPv4(address: string): number[] | null {
+	const parts = address.split('.');
+	if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+	const octets = parts.map(Number);
+	return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+/**
+ * Parse an IPv6 address into its eight 16-bit groups, null for anything else
+ */
+function parseIPv6(address: string): number[] | null {
+	let text = address.toLowerCase();
+
+	// A trailing dotted IPv4 address fills the last two groups
+	const tail = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+	if (tail) {
+		const octets = parseIPv4(tail[2]);
+		if (!octets) return null;
+		text =
+			tail[1] +
+			((octets[0] << 8) | octets[1]).toString(16) +
+			':' +
+			((octets[2] << 8) | octets[3]).toString(16);
+	}
+
+	const halves = text.split('::');
+	if (halves.length > 2) return null;
+
+	const head = halves[0] ? halves[0].split(':') : [];
+	const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+	const missing = 8 - head.length - rest.length;
+	if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+	const groups = [...head, ...Array<string>(missing).fill('0'), ...rest];
+	if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+	return groups.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+	return (
+		a === 0 || // "This" network
+		a === 10 || // Private
+		a === 127 || // Loopback
+		(a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+		(a === 169 && b === 254) || // Link-local, cloud metadata services
+		(a === 172 && b >= 16 && b <= 31) || // Private
+		(a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+		(a === 192 && b === 168) || // Private
+		(a === 198 && (b === 18 || b === 19)) || // Benchmarking
+		a >= 224 // Multicast, reserved and broadcast
+	);
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+	const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+	const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+	// Unspecified and loopback
+	if (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] <= 1) return true;
+	// IPv4-mapped and IPv4-compatible addresses
+	if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) {
+		return isPrivateIPv4(embeddedIPv4);
+	}
+	// NAT64 addresses carry an IPv4 address in their last 32 bits
+	if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPrivateIPv4(embeddedIPv4);
+	// 6to4 addresses carry one in their second and third groups
+	if (groups[0] === 0x2002) {
+		return isPrivateIPv4([groups[1] >> 8, groups[1] & 0xff, groups[2] >> 8, groups[2] & 0xff]);
+	}
+
+	return (
+		(groups[0] & 0xfe00) === 0xfc00 || // Unique local
+		(groups[0] & 0xffc0) === 0xfe80 || // Link-local
+		(groups[0] & 0xff00) === 0xff00 // Multicast
+	);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the internet.
+ * Anything that does not parse as an address counts as private.
+ */
+function isPrivateAddress(address: string): boolean {
+	const ipv4 = parseIPv4(address);
+	if (ipv4) return isPrivateIPv4(ipv4);
+	const ipv6 = parseIPv6(address);
+	return ipv6 ? isPrivateIPv6(ipv6) : true;
+}
+
+/**
+ * The IPv4 and IPv6 addresses a host name resolves to
+ */
+async function resolveHost(hostname: string, signal: AbortSignal): Promise<string[]> {
+	const addresses: string[] = [];
+
+	for (const type of ['A', 'AAAA'] as const) {
+		const response = await fetch(
+			`${DNS_RESOLVER_URL}?name=${encodeURIComponent(hostname)}&type=${type}`,
+			{ headers: { Accept: 'application/dns-json' }, signal }
+		);
+		if (!response.ok) {
+			throw new Error(`DNS lookup failed with status ${response.status}`);
+		}
+
+		const result = (await response.json()) as { Answer?: Array<{ type: number; data: string }> };
+		for (const answer of result.Answer ?? []) {
+			// Only the addresses, not the CNAME records leading to them
+			if (answer.type === 1 || answer.type === 28) {
+				addresses.push(answer.data);
+			}
+		}
+	}
+
+	return addresses;
+}
+
+/**
+ * Null when the URL may be fetched, otherwise why it may not
+ */
+async function checkUrl(url: URL, signal: AbortSignal): Promise<string | null> {
+	if (url.protocol !== 'https:') {
+		return 'Only https:// URLs can be fetched';
+	}
+	if (url.port && url.port !== '443') {
+		return 'URLs can only be fetched from the default HTTPS port';
+	}
+	if (url.username || url.password) {
+		return 'URLs with credentials cannot be fetched';
+	}
+
+	// The URL parser has already turned every IPv4 notation into dotted decimal
+	const hostname = url.hostname
+		.toLowerCase()
+		.replace(/^\[|\]$/g, '')
+		.replace(/\.$/, '');
+	if (
+		hostname === 'localhost' ||
+		PRIVATE_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+	) {
+		return 'URLs on private networks cannot be fetched';
+	}
+
+	if (parseIPv4(hostname) || parseIPv6(hostname)) {
+		return isPrivateAddress(hostname) ? 'URLs on private networks cannot be fetched' : null;
+	}
+
+	// Host names are checked by the addresses they point to
+	let addresses: string[];
+	try {
+		addresses = await resolveHost(hostname, signal);
+	} catch (error) {
+		console.error('[Remote files] DNS lookup failed:', error);
+		return `Could not resolve ${hostname}`;
+	}
+	if (addresses.length === 0) {
+		return `Could not resolve ${hostname}`;
+	}
+	if (addresses.some(isPrivateAddress)) {
+		return 'URLs on private networks cannot be fetched';
+	}
+
+	return null;
+}
+
+/**
+ * Read a response body, stopping as soon as it grows past maxBytes
+ */
+async function readBody(
+	response: Response,
+	maxBytes: number
+): Promise<Uint8Array<ArrayBuffer> | null> {
+	if (!response.body) return new Uint8Array(0);
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		size += value.byteLength;
+		if (size > maxBytes) {
+			await reader.cancel();
+			return null;
+		}
+		chunks.push(value);
+	}
+
+	const bytes = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return bytes;
+}
+
+/**
+ * File name for a download: the given one, or the last segment of the URL's path, with the
+ * extension of its type when it has none
+ */
+function downloadFileName(url: URL, mimeType: string, fileName?: string | null): string {
+	let name = fileName?.trim() || '';
+	if (!name) {
+		try {
+			name = decodeURIComponent(url.pathname.split('/').pop() || '');
+		} catch {
+			name = '';
+		}
+	}
+	name = name || 'download';
+	return /\.[a-z0-9]+$/i.test(name) ? name : `${name}.${MIME_TYPE_EXTENSIONS[mimeType]}`;
+}
+
+/**
+ * Download a file from a public HTTPS URL, following a few redirects. The file must be of
+ * one of the allowed types, by its Content-Type header, and at most maxBytes long.
+ */
+export async function fetchRemoteFile(
+	input: string,
+	options: { maxBytes: number; allowedMimeTypes: readonly string[]; fileName?: string | null }
+): Promise<RemoteFileResult> {
+	let url: URL;
+	try {
+		url = new URL(input);
+	} catch {
+		return failure('Invalid url');
+	}
+
+	const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+	try {
+		for (let redirects = 0; ; redirects++) {
+			const refused = await checkUrl(url, signal);
+			if (refused) {
+				return failure(refused);
+			}
+
+			// Redirects are followed by hand, so every hop is checked
+			const response = await fetch(url, {
+				redirect: 'manual',
+				headers: { Accept: options.allowedMimeTypes.join(', ') },
+				signal
+			});
+
+			if (response.status >= 300 && response.status < 400) {
+				const location = response.headers.get('Location');
+				await response.body?.cancel();
+				if (!location) {
+					return failure(`The URL redirected without a location (${response.status})`);
+				}
+				if (redirects >= MAX_REDIRECTS) {
+					return failure('The URL redirected too many times');
+				}
+				url = new URL(location, url);
+				continue;
+			}
+
+			if (!response.ok) {
+				await response.body?.cancel();
+				return failure(`The URL could not be fetched: it responded with ${response.status}`);
+			}
+
+			const mimeType = (response.headers.get('Content-Type') ?? '')
+				.split(';')[0]
+				.trim()
+				.toLowerCase();
+			if (!options.allowedMimeTypes.includes(mimeType)) {
+				await response.body?.cancel();
+				return failure(
+					`Unsupported file type at the URL: ${mimeType || 'none given'}. Allowed types: ${options.allowedMimeTypes.join(', ')}`
+				);
+			}
+
+			const tooLarge = `The file at the URL is too large. Maximum size: ${formatSize(options.maxBytes)}`;
+			const declaredSize = Number(response.headers.get('Content-Length'));
+			if (declaredSize > options.maxBytes) {
+				await response.body?.cancel();
+				return failure(tooLarge);
+			}
+
+			const bytes = await readBody(response, options.maxBytes);
+			if (!bytes) {
+				return failure(tooLarge);
+			}
+
+			const fileName = downloadFileName(url, mimeType, options.fileName);
+			return { success: true, file: new File([bytes], fileName, { type: mimeType }) };
+		}
+	} catch (error) {
+		if (error instanceof Error && error.name === 'TimeoutError') {
+			return failure('The URL took too long to respond');
+		}
+		console.error('[Remote files] Fetch failed:', error);
+		return failure('The URL could not be fetched');
+	}
+}
+
+/**
+ * Decode a base64 file, given plainly or as a data: URL. Its type comes from the data URL,
+ * then from mimeType, then from the extension of fileName.
+ */
+export function decodeBase64File(
+	data: string,
+	options: { fileName: string; mimeType?: string | null; maxBytes: number }
+): RemoteFileResult {
+	let encoded = data.trim();
+	let mimeType = options.mimeType?.trim().toLowerCase() || null;
+
+	const dataUrl = encoded.match(/^data:([^;,]*)(?:;[^,]*)?;base64,/i);
+	if (dataUrl) {
+		mimeType = dataUrl[1].toLowerCase() || mimeType;
+		encoded = encoded.slice(dataUrl[0].length);
+	}
+
+	mimeType ??= EXTENSION_MIME_TYPES[options.fileName.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+	if (!mimeType) {
+		return failure('Could not tell the file type from fileName. Add mimeType');
+	}
+
+	encoded = encoded.replace(/\s+/g, '');
+	// Checked before decoding, three bytes per four characters
+	if (Math.floor((encoded.length * 3) / 4) > options.maxBytes + 2) {
+		return failure(`File too large. Maximum size: ${formatSize(options.maxBytes)}`);
+	}
+	if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded) || encoded.length % 4 === 1) {
+		return failure('Invalid data: expected base64');
+	}
+
+	const binary = atob(encoded);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+
+	return { success: true, file: new File([bytes], options.fileName, { type: mimeType }) };
+}
@@ -0,0 +1,50 @@
+/**
+ * Template service
+ * Looks up extraction templates, built-in or owned by the user, and applies them to a scan
+ */
+
+import { db } from '$lib/server/db';
+import { template } from '$lib/server/db/schema';
+import {
+	getBuiltinTemplate,
+	isBuiltinTemplateId,
+	type OcrTemplate
+} from '$lib/server/config/templates';
+import { eq, and } from 'drizzle-orm';
+
+/**
+ * Get a built-in template or one of the user's own, null when there is no such template
+ */
+export async function getTemplate(userId: string, templateId: string): Promise<OcrTemplate | null> {
+	if (isBuiltinTemplateId(templateId)) {
+		return getBuiltinTemplate(templateId);
+	}
+
+	const row = await db.query.template.findFirst({
+		where: and(eq(template.id, templateId), eq(template.userId, userId))
+	});
+
+	if (!row) return null;
+
+	return {
+		id: row.id,
+		name: row.name,
+		description: row.description,
+		prompt: row.prompt,
+		outputFormat: row.outputFormat,
+		schema: row.schema,
+		model: row.model
+	};
+}
+
+/**
+ * Custom prompt for a scan made with a template: the template's prompt followed by
+ * the user's own additions
+ */
+export function combineTemplatePrompt(
+	templatePrompt: string | null,
+	customPrompt: string | null | undefined
+): string | null {
+	const parts = [templatePrompt?.trim(), customPrompt?.trim()].filter(Boolean);
+	return parts.length > 0 ? parts.join('\n') : null;
+}
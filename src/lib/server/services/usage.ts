@@ -16,6 +16,7 @@ export interface UsageRecord {
 	periodEnd: Date;
 	imagesScanned: number;
 	bytesProcessed: number;
+	textLayerPages: number;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -71,6 +72,7 @@ export async function getCurrentUsage(userId: string): Promise<UsageRecord> {
 				periodEnd: end,
 				imagesScanned: 0,
 				bytesProcessed: 0,
+				textLayerPages: 0,
 				createdAt: timestamp,
 				updatedAt: timestamp
 			};
@@ -80,20 +82,49 @@ export async function getCurrentUsage(userId: string): Promise<UsageRecord> {
 	return record;
 }
 
+/**
+ * Pages of a scan and how many of them were taken from a PDF text layer
+ */
+export interface ScanPages {
+	pageCount: number;
+	textLayerPages: number;
+	// Layout, translation or field extraction was asked for, which runs the model over
+	// text-layer pages too
+	modelPasses?: boolean;
+}
+
+/**
+ * Whether a scan costs no image: every page came from a text layer and the model did not run
+ */
+function isFreeScan(pages: ScanPages): boolean {
+	return !pages.modelPasses && pages.textLayerPages >= pages.pageCount;
+}
+
 /**
  * Increment usage counters for a user using atomic update
- * Creates record if it doesn't exist
+ * Creates record if it doesn't exist.
+ * Born-digital PDFs, whose every page is taken from the text layer, are not counted against
+ * the monthly image limit unless they ask for layout, translation or extraction; their pages
+ * are counted in textLayerPages either way. Every other
+ * scan counts as one image whatever its pages, so a PDF with a single page read by the model
+ * costs as much as one read from end to end.
  */
-export async function incrementUsage(userId: string, bytes: number): Promise<void> {
+export async function incrementUsage(
+	userId: string,
+	bytes: number,
+	pages: ScanPages = { pageCount: 1, textLayerPages: 0 }
+): Promise<void> {
 	const { start, end } = getMonthPeriod();
 	const timestamp = now();
+	const images = isFreeScan(pages) ? 0 : 1;
 
 	// Try to update first (most common case)
 	const result = await db
 		.update(usageRecord)
 		.set({
-			imagesScanned: sql`${usageRecord.imagesScanned} + 1`,
+			imagesScanned: sql`${usageRecord.imagesScanned} + ${images}`,
 			bytesProcessed: sql`${usageRecord.bytesProcessed} + ${bytes}`,
+			textLayerPages: sql`${usageRecord.textLayerPages} + ${pages.textLayerPages}`,
 			updatedAt: timestamp
 		})
 		.where(
@@ -113,8 +144,9 @@ export async function incrementUsage(userId: string, bytes: number): Promise<voi
 				userId,
 				periodStart: start,
 				periodEnd: end,
-				imagesScanned: 1,
+				imagesScanned: images,
 				bytesProcessed: bytes,
+				textLayerPages: pages.textLayerPages,
 				createdAt: timestamp,
 				updatedAt: timestamp
 			})
@@ -167,7 +199,8 @@ export async function checkUploadLimits(
  */
 export async function checkAndIncrementUsage(
 	userId: string,
-	fileSizeBytes: number
+	fileSizeBytes: number,
+	pages?: ScanPages
 ): Promise<{
 	allowed: boolean;
 	currentUsage: number;
@@ -191,12 +224,13 @@ export async function checkAndIncrementUsage(
 
 	// If fileSizeBytes > 0, we're actually processing - increment usage
 	if (fileSizeBytes > 0) {
-		await incrementUsage(userId, fileSizeBytes);
+		await incrementUsage(userId, fileSizeBytes, pages);
 	}
 
+	const counted = fileSizeBytes > 0 && (!pages || !isFreeScan(pages));
 	return {
 		allowed: true,
-		currentUsage: fileSizeBytes > 0 ? currentUsage + 1 : currentUsage,
+		currentUsage: counted ? currentUsage + 1 : currentUsage,
 		limit
 	};
 }
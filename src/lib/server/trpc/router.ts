@@ -10,7 +10,10 @@ import {
 	plansRouter,
 	usageRouter,
 	dashboardRouter,
-	tokensRouter
+	tokensRouter,
+	modelsRouter,
+	templatesRouter,
+	documentsRouter
 } from './routes/index.js';
 
 export const appRouter = router({
@@ -31,7 +34,10 @@ export const appRouter = router({
 	plans: plansRouter,
 	usage: usageRouter,
 	dashboard: dashboardRouter,
-	tokens: tokensRouter
+	tokens: tokensRouter,
+	models: modelsRouter,
+	templates: templatesRouter,
+	documents: documentsRouter
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,128 @@
+/**
+ * Documents router
+ * Questions and summaries over the text of finished scans
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../index.js';
+import { db } from '$lib/server/db';
+import { scannedImage } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { getOcrModel } from '$lib/server/config/models';
+import { getOcrProvider } from '$lib/server/ocr/providers';
+import {
+	DOCUMENT_TIMEOUT_MS,
+	DocumentLengthError,
+	MAX_QUESTION_LENGTH,
+	summarizeDocument
+} from '$lib/server/ocr/documents';
+import { getDocument } from '$lib/server/services/documents';
+import { generateId, now } from '$lib/server/utils';
+
+const ERROR_CODES = {
+	400: 'BAD_REQUEST',
+	404: 'NOT_FOUND',
+	409: 'CONFLICT'
+} as const;
+
+// The scan and its page texts, or the matching tRPC error
+async function requireDocument(userId: string, imageId: string) {
+	const document = await getDocument(userId, imageId);
+
+	if (!document.success) {
+		throw new TRPCError({
+			code: ERROR_CODES[document.statusCode as keyof typeof ERROR_CODES] ?? 'BAD_REQUEST',
+			message: document.error
+		});
+	}
+
+	return document;
+}
+
+export const documentsRouter = router({
+	/**
+	 * Ask a question about a scan. The answer streams over the scan's WebSocket as
+	 * answer-chunk messages, followed by answer-complete with the cited page numbers
+	 */
+	ask: protectedProcedure
+		.input(
+			z.object({
+				id: z.string().uuid(),
+				question: z.string().trim().min(1).max(MAX_QUESTION_LENGTH),
+				// Lets the client match WebSocket messages it receives before the mutation returns
+				askId: z.string().uuid().optional()
+			})
+		)
+		.mutation(async ({ ctx, input }) => {
+			const platform = ctx.platform;
+
+			if (!platform?.env?.OCR_SESSION) {
+				throw new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: 'OCR service not configured'
+				});
+			}
+
+			const { image, pages } = await requireDocument(ctx.user.id, input.id);
+			const askId = input.askId ?? generateId();
+
+			const doId = platform.env.OCR_SESSION.idFromName(input.id);
+			const stub = platform.env.OCR_SESSION.get(doId);
+
+			const response = await stub.fetch(
+				new Request('https://do/ask', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ askId, question: input.question, model: image.model, pages })
+				})
+			);
+
+			if (!response.ok) {
+				throw new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: 'Failed to start answering the question'
+				});
+			}
+
+			return { askId, wsUrl: `/api/ocr/${input.id}/ws` };
+		}),
+
+	/**
+	 * Summarize a scan and store the summary for the dashboard list
+	 */
+	summarize: protectedProcedure
+		.input(z.object({ id: z.string().uuid() }))
+		.mutation(async ({ ctx, input }) => {
+			const { image, pages } = await requireDocument(ctx.user.id, input.id);
+
+			const signal = AbortSignal.timeout(DOCUMENT_TIMEOUT_MS);
+			let summary: string;
+			try {
+				summary = await summarizeDocument(
+					getOcrProvider(ctx.platform?.env),
+					getOcrModel(image.model),
+					pages,
+					signal
+				);
+			} catch (error) {
+				if (error instanceof DocumentLengthError) {
+					throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+				}
+				console.error('[Documents] Summary failed:', error);
+				throw new TRPCError({
+					code: signal.aborted ? 'TIMEOUT' : 'INTERNAL_SERVER_ERROR',
+					message: signal.aborted
+						? 'Summarizing the document took too long. Please try again.'
+						: 'Failed to summarize the document. Please try again.'
+				});
+			}
+
+			await db
+				.update(scannedImage)
+				.set({ summary: summary || null, updatedAt: now() })
+				.where(eq(scannedImage.id, input.id));
+
+			return { summary };
+		})
+});
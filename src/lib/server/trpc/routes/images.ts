@@ -7,11 +7,40 @@ import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { router, protectedProcedure } from '../index.js';
 import { db } from '$lib/server/db';
-import { scannedImage } from '$lib/server/db/schema';
-import { eq, desc, and, lt, or, like, inArray } from 'drizzle-orm';
+import { scannedImage, scannedPage } from '$lib/server/db/schema';
+import {
+	eq,
+	asc,
+	desc,
+	and,
+	lt,
+	gt,
+	gte,
+	lte,
+	or,
+	like,
+	inArray,
+	isNotNull,
+	isNull
+} from 'drizzle-orm';
 import { buildPrompt } from '$lib/server/ocr';
+import { parseScanMetadata } from '$lib/server/ocr/metadata';
+import { parseLanguages } from '$lib/server/ocr/language';
+import { OUTPUT_FORMATS } from '$lib/server/ocr/format';
+import { parseJsonSchema } from '$lib/server/ocr/extraction';
+import { isTranslationLanguage } from '$lib/server/ocr/translation';
+import { usableTextLayer } from '$lib/server/ocr/text-layer';
+import { MAX_TEXT_LAYER_LENGTH } from '$lib/utils/text-layer';
+import {
+	DEFAULT_OCR_MODEL,
+	isKnownOcrModel,
+	checkOcrModelAccess,
+	routeOcrModel
+} from '$lib/server/config/models';
 import { generateId, now, getFileExtension } from '$lib/server/utils';
-import { checkUploadLimits, incrementUsage } from '$lib/server/services/usage';
+import { checkUploadLimits, incrementUsage, getUserPlan } from '$lib/server/services/usage';
+import { getTemplate, combineTemplatePrompt } from '$lib/server/services/templates';
+import { isPageRange, normalizePageRange } from '$lib/utils/page-range';
 
 // Allowed image MIME types
 const ALLOWED_IMAGE_MIME_TYPES = [
@@ -28,6 +57,12 @@ const ALLOWED_IMAGE_MIME_TYPES = [
 // PDF MIME type
 const PDF_MIME_TYPE = 'application/pdf' as const;
 
+// Image types most browsers cannot decode, split into page images on the server
+const SERVER_DECODED_MIME_TYPES: readonly string[] = ['image/heic', 'image/heif', 'image/tiff'];
+
+// Most photos uploaded together as the pages of one document
+const MAX_DOCUMENT_IMAGES = 50;
+
 // All allowed MIME types (images + PDF)
 const ALLOWED_MIME_TYPES = [...ALLOWED_IMAGE_MIME_TYPES, PDF_MIME_TYPE] as const;
 
@@ -35,23 +70,177 @@ const mimeTypeSchema = z.enum(ALLOWED_MIME_TYPES, {
 	message: 'Invalid file type. Allowed: JPEG, PNG, GIF, WebP, HEIC, TIFF, BMP, PDF'
 });
 
+export const modelSchema = z.string().refine(isKnownOcrModel, { message: 'Unknown OCR model' });
+
+const rotationSchema = z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]);
+
+export const outputFormatSchema = z.enum(OUTPUT_FORMATS);
+
+export const translateToSchema = z
+	.string()
+	.refine(isTranslationLanguage, { message: 'Unsupported translation language' });
+
+// PDF pages to read, like "1-3,7,10-"
+const pageRangeSchema = z
+	.string()
+	.refine(isPageRange, { message: 'Invalid page selection. Use pages and ranges like 1-3,7,10-' })
+	.transform(normalizePageRange);
+
+// JSON Schema of the fields to extract, checked against the supported subset
+export const extractionSchemaSchema = z.unknown().transform((value, ctx) => {
+	try {
+		return parseJsonSchema(value);
+	} catch (error) {
+		ctx.addIssue({
+			code: 'custom',
+			message: error instanceof Error ? error.message : 'Invalid schema'
+		});
+		return z.NEVER;
+	}
+});
+
+// Throws if the template does not exist or is not the user's
+async function requireTemplate(userId: string, templateId: string) {
+	const found = await getTemplate(userId, templateId);
+
+	if (!found) {
+		throw new TRPCError({
+			code: 'NOT_FOUND',
+			message: 'Template not found'
+		});
+	}
+
+	return found;
+}
+
+// Render the pages of a stored PDF, TIFF or HEIC/HEIF file to page images next to it in
+// the scan's OCRSession Durable Object
+async function renderPages(
+	env: App.Platform['env'],
+	imageId: string,
+	sourceKey: string,
+	pageRange: string | null,
+	maxPages: number
+) {
+	const stub = env.OCR_SESSION.get(env.OCR_SESSION.idFromName(imageId));
+	const response = await stub.fetch(
+		new Request('https://do/render-pages', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ sourceKey, pageRange, maxPages })
+		})
+	);
+
+	if (!response.ok) {
+		const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+		throw new TRPCError({
+			code: response.status >= 500 ? 'INTERNAL_SERVER_ERROR' : 'BAD_REQUEST',
+			message:
+				response.status >= 500
+					? 'Failed to read the file. Please try again.'
+					: error || 'The file could not be read'
+		});
+	}
+
+	const { pages } = (await response.json()) as {
+		pages: Array<{
+			imageKey: string;
+			width: number;
+			height: number;
+			text: string | null; // Usable text layer of PDF pages
+		}>;
+	};
+	return pages;
+}
+
+// Render a scanned PDF's pages again for a new selection and replace the scan's pages with
+// them, deleting the page images no longer used
+async function replacePdfPages(
+	env: App.Platform['env'],
+	image: { id: string; imageKey: string; pageImages: string[] | null },
+	pageRange: string | null,
+	maxPages: number
+): Promise<string[]> {
+	const pages = await renderPages(env, image.id, image.imageKey, pageRange, maxPages);
+	const pageImages = pages.map((page) => page.imageKey);
+	const timestamp = now();
+
+	await db.delete(scannedPage).where(eq(scannedPage.imageId, image.id));
+	await db.insert(scannedPage).values(
+		pages.map((page, index) => ({
+			id: generateId(),
+			imageId: image.id,
+			pageNumber: index + 1,
+			imageKey: page.imageKey,
+			width: page.width,
+			height: page.height,
+			embeddedText: page.text,
+			status: 'pending' as const,
+			createdAt: timestamp,
+			updatedAt: timestamp
+		}))
+	);
+
+	const unused = (image.pageImages ?? []).filter((key) => !pageImages.includes(key));
+	if (unused.length > 0) {
+		await env.R2_BUCKET.delete(unused);
+	}
+
+	return pageImages;
+}
+
 // Helper to check if a MIME type is PDF
 export function isPdfMimeType(mimeType: string): boolean {
 	return mimeType === PDF_MIME_TYPE;
 }
 
+// Throws if the user's plan does not include the requested model
+export async function assertModelAllowed(userId: string, modelId: string): Promise<void> {
+	const plan = await getUserPlan(userId);
+	const access = checkOcrModelAccess(modelId, plan.id);
+
+	if (!access.allowed) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: access.error!
+		});
+	}
+}
+
 export const imagesRouter = router({
 	list: protectedProcedure
 		.input(
 			z.object({
 				limit: z.number().min(1).max(100).default(20),
 				cursor: z.string().optional(),
-				status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']).optional(),
-				search: z.string().max(200).optional()
+				status: z
+					.enum(['pending', 'processing', 'completed', 'partial', 'failed', 'cancelled'])
+					.optional(),
+				search: z.string().max(200).optional(),
+				// ISO 639-1 code, matches scans where it is one of the detected languages
+				language: z
+					.string()
+					.regex(/^[a-z]{2}$/)
+					.optional(),
+				minConfidence: z.number().min(0).max(1).optional(),
+				maxConfidence: z.number().min(0).max(1).optional(),
+				// Sorting by confidence leaves out scans without a score
+				sortBy: z.enum(['createdAt', 'confidence']).default('createdAt'),
+				sortOrder: z.enum(['asc', 'desc']).default('desc')
 			})
 		)
 		.query(async ({ ctx, input }) => {
-			const { limit, cursor, status, search } = input;
+			const {
+				limit,
+				cursor,
+				status,
+				search,
+				language,
+				minConfidence,
+				maxConfidence,
+				sortBy,
+				sortOrder
+			} = input;
 
 			const conditions = [eq(scannedImage.userId, ctx.user.id)];
 
@@ -59,6 +248,28 @@ export const imagesRouter = router({
 				conditions.push(eq(scannedImage.status, status));
 			}
 
+			// Detected languages are stored comma-separated, e.g. "en,fr"
+			if (language) {
+				conditions.push(
+					or(
+						eq(scannedImage.language, language),
+						like(scannedImage.language, `${language},%`),
+						like(scannedImage.language, `%,${language}`),
+						like(scannedImage.language, `%,${language},%`)
+					)!
+				);
+			}
+
+			if (minConfidence !== undefined) {
+				conditions.push(gte(scannedImage.confidence, minConfidence));
+			}
+			if (maxConfidence !== undefined) {
+				conditions.push(lte(scannedImage.confidence, maxConfidence));
+			}
+			if (sortBy === 'confidence') {
+				conditions.push(isNotNull(scannedImage.confidence));
+			}
+
 			// Search in fileName and extractedText
 			if (search && search.trim()) {
 				const searchPattern = `%${search.trim()}%`;
@@ -72,21 +283,43 @@ export const imagesRouter = router({
 
 			// Cursor-based pagination: use lt (less than) to avoid duplicates
 			// The cursor is the ID of the last item from previous page
+			const direction = sortOrder === 'asc' ? asc : desc;
+			const after = sortOrder === 'asc' ? gt : lt;
+
 			if (cursor) {
 				const cursorImage = await db.query.scannedImage.findFirst({
 					where: and(eq(scannedImage.id, cursor), eq(scannedImage.userId, ctx.user.id)),
-					columns: { createdAt: true, id: true }
+					columns: { createdAt: true, confidence: true, id: true }
 				});
 				if (cursorImage) {
-					// Use strict less-than to avoid returning the cursor item again
-					// For items with same createdAt, also check id
-					conditions.push(lt(scannedImage.createdAt, cursorImage.createdAt));
+					// Use strict comparisons to avoid returning the cursor item again
+					if (sortBy === 'confidence' && cursorImage.confidence !== null) {
+						// Ties on confidence fall back to newest first
+						conditions.push(
+							or(
+								after(scannedImage.confidence, cursorImage.confidence),
+								and(
+									eq(scannedImage.confidence, cursorImage.confidence),
+									lt(scannedImage.createdAt, cursorImage.createdAt)
+								)
+							)!
+						);
+					} else {
+						conditions.push(after(scannedImage.createdAt, cursorImage.createdAt));
+					}
 				}
 			}
 
 			const images = await db.query.scannedImage.findMany({
 				where: and(...conditions),
-				orderBy: [desc(scannedImage.createdAt), desc(scannedImage.id)],
+				orderBy:
+					sortBy === 'confidence'
+						? [
+								direction(scannedImage.confidence),
+								desc(scannedImage.createdAt),
+								desc(scannedImage.id)
+							]
+						: [direction(scannedImage.createdAt), direction(scannedImage.id)],
 				limit: limit + 1
 			});
 
@@ -103,7 +336,10 @@ export const imagesRouter = router({
 		.input(z.object({ id: z.string().uuid() }))
 		.query(async ({ ctx, input }) => {
 			const image = await db.query.scannedImage.findFirst({
-				where: and(eq(scannedImage.id, input.id), eq(scannedImage.userId, ctx.user.id))
+				where: and(eq(scannedImage.id, input.id), eq(scannedImage.userId, ctx.user.id)),
+				with: {
+					pages: { orderBy: [asc(scannedPage.pageNumber)] }
+				}
 			});
 
 			if (!image) {
@@ -113,7 +349,25 @@ export const imagesRouter = router({
 				});
 			}
 
-			return image;
+			return {
+				...image,
+				pages: image.pages.map((page) => ({
+					pageNumber: page.pageNumber,
+					imageKey: page.imageKey,
+					imageUrl: `/api/images/${page.imageKey}`,
+					width: page.width,
+					height: page.height,
+					text: page.text,
+					confidence: page.confidence,
+					language: page.language,
+					translatedText: page.translatedText,
+					layout: page.layout,
+					method: page.method,
+					status: page.status,
+					processingTimeMs: page.processingTimeMs,
+					errorMessage: page.errorMessage
+				}))
+			};
 		}),
 
 	getUploadUrl: protectedProcedure
@@ -160,8 +414,21 @@ export const imagesRouter = router({
 				width: z.number().positive().optional(),
 				height: z.number().positive().optional(),
 				pageCount: z.number().positive().optional(), // For PDFs
-				pageImages: z.array(z.string()).optional(), // R2 keys for page images
-				customPrompt: z.string().max(1000).optional()
+				// R2 keys of the rendered PDF pages, or of the photos of a multi-image document
+				pageImages: z.array(z.string()).max(MAX_DOCUMENT_IMAGES).optional(),
+				// Embedded text of each PDF page, null when it is too long to be a page of text
+				pageTexts: z
+					.array(z.string().max(MAX_TEXT_LAYER_LENGTH).nullable())
+					.max(MAX_DOCUMENT_IMAGES)
+					.optional(),
+				pageRange: pageRangeSchema.optional(), // PDF pages the page images were rendered from
+				customPrompt: z.string().max(1000).optional(),
+				model: modelSchema.optional(),
+				outputFormat: outputFormatSchema.optional(), // Defaults to the template's, then 'text'
+				schema: extractionSchemaSchema.optional(), // Fields to extract into extractedData
+				templateId: z.string().min(1).optional(), // Built-in or own template, explicit fields win
+				translateTo: translateToSchema.optional(), // ISO 639-1 code of a language to translate into
+				layout: z.boolean().optional() // Also read word and line boxes of each page
 			})
 		)
 		.mutation(async ({ ctx, input }) => {
@@ -174,21 +441,51 @@ export const imagesRouter = router({
 				});
 			}
 
-			// Security: Verify imageKey belongs to this user
+			// Security: Verify imageKey and the page images belong to this user
 			const expectedPrefix = `${ctx.user.id}/`;
-			if (!input.imageKey.startsWith(expectedPrefix)) {
+			if (
+				!input.imageKey.startsWith(expectedPrefix) ||
+				input.pageImages?.some((key) => !key.startsWith(expectedPrefix))
+			) {
 				throw new TRPCError({
 					code: 'FORBIDDEN',
 					message: 'Invalid image key'
 				});
 			}
 
-			// Check for duplicate image by content hash (same user, same content)
-			if (input.contentHash) {
+			// Settings from the template, overridden by the ones given explicitly
+			const template = input.templateId
+				? await requireTemplate(ctx.user.id, input.templateId)
+				: null;
+			const customPrompt = template
+				? combineTemplatePrompt(template.prompt, input.customPrompt)
+				: input.customPrompt || null;
+			const outputFormat = input.outputFormat ?? template?.outputFormat ?? 'text';
+			const extractionSchema = input.schema ?? template?.schema ?? null;
+
+			const modelId = input.model ?? template?.model ?? DEFAULT_OCR_MODEL;
+			if (input.model || template?.model) {
+				await assertModelAllowed(ctx.user.id, modelId);
+			}
+
+			// Check for duplicate image by content hash (same user, content, model, format,
+			// translation language, layout and PDF pages).
+			// Scans with a schema are always read again for their fields
+			if (input.contentHash && !extractionSchema) {
 				const existing = await db.query.scannedImage.findFirst({
 					where: and(
 						eq(scannedImage.userId, ctx.user.id),
 						eq(scannedImage.contentHash, input.contentHash),
+						eq(scannedImage.model, modelId),
+						eq(scannedImage.outputFormat, outputFormat),
+						isNull(scannedImage.extractionSchema),
+						input.translateTo
+							? eq(scannedImage.translateTo, input.translateTo)
+							: isNull(scannedImage.translateTo),
+						eq(scannedImage.layout, input.layout ?? false),
+						input.pageRange
+							? eq(scannedImage.pageRange, input.pageRange)
+							: isNull(scannedImage.pageRange),
 						eq(scannedImage.status, 'completed')
 					),
 					columns: {
@@ -226,6 +523,36 @@ export const imagesRouter = router({
 			const timestamp = now();
 			const originalUrl = `/api/images/${input.imageKey}`;
 
+			// TIFF and HEIC/HEIF files are decoded on the server, one page per TIFF frame
+			let rendered: Awaited<ReturnType<typeof renderPages>> | null = null;
+			if (!input.pageImages?.length && SERVER_DECODED_MIME_TYPES.includes(input.mimeType)) {
+				if (!platform.env.OCR_SESSION) {
+					throw new TRPCError({
+						code: 'INTERNAL_SERVER_ERROR',
+						message: 'OCR service not configured'
+					});
+				}
+				const plan = await getUserPlan(ctx.user.id);
+				rendered = await renderPages(
+					platform.env,
+					input.imageId,
+					input.imageKey,
+					null,
+					plan.maxPdfPages
+				);
+			}
+
+			// One row per page: the PDF's page images, the photos of a multi-image document in
+			// the order they were given, the pages decoded on the server, or the image itself
+			// as page 1
+			const pageKeys = rendered
+				? rendered.map((page) => page.imageKey)
+				: input.pageImages?.length
+					? input.pageImages
+					: [input.imageKey];
+			const pageImages = rendered || input.pageImages?.length ? pageKeys : null;
+			const pageCount = isPdf ? input.pageCount : pageKeys.length;
+
 			// Create the database record
 			await db.insert(scannedImage).values({
 				id: input.imageId,
@@ -236,28 +563,61 @@ export const imagesRouter = router({
 				mimeType: input.mimeType,
 				fileSizeBytes: input.fileSizeBytes,
 				contentHash: input.contentHash,
-				width: input.width,
-				height: input.height,
+				width: input.width ?? rendered?.[0]?.width,
+				height: input.height ?? rendered?.[0]?.height,
 				isPdf,
-				pageCount: isPdf ? input.pageCount : 1,
-				pageImages: isPdf ? input.pageImages : null,
-				customPrompt: input.customPrompt,
+				pageCount,
+				pageImages,
+				pageRange: isPdf ? (input.pageRange ?? null) : null,
+				customPrompt,
+				model: modelId,
+				outputFormat,
+				extractionSchema,
+				templateId: template?.id ?? null,
+				translateTo: input.translateTo ?? null,
+				layout: input.layout ?? false,
 				status: 'pending',
 				createdAt: timestamp,
 				updatedAt: timestamp
 			});
 
-			await incrementUsage(ctx.user.id, input.fileSizeBytes);
+			// PDF pages with a usable text layer are taken from it instead of read by the model.
+			// The text comes from the browser and is taken on trust, so a PDF whose every page has
+			// one costs no image below, unless layout, translation or extraction runs the model over
+			// it: a made-up text layer then only gets that same text back
+			const embeddedTexts = pageKeys.map((_, index) =>
+				isPdf ? usableTextLayer(input.pageTexts?.[index]) : null
+			);
+			await db.insert(scannedPage).values(
+				pageKeys.map((key, index) => ({
+					id: generateId(),
+					imageId: input.imageId,
+					pageNumber: index + 1,
+					imageKey: key,
+					width: rendered ? rendered[index].width : pageImages ? null : input.width,
+					height: rendered ? rendered[index].height : pageImages ? null : input.height,
+					embeddedText: embeddedTexts[index],
+					status: 'pending' as const,
+					createdAt: timestamp,
+					updatedAt: timestamp
+				}))
+			);
+
+			await incrementUsage(ctx.user.id, input.fileSizeBytes, {
+				pageCount: pageKeys.length,
+				textLayerPages: embeddedTexts.filter(Boolean).length,
+				modelPasses: !!(input.layout || input.translateTo || extractionSchema)
+			});
 
 			// Build the prompt for OCR processing
-			const prompt = buildPrompt(input.customPrompt);
+			const prompt = buildPrompt(customPrompt, { outputFormat });
 
 			// Return info for client to connect via WebSocket and trigger processing
 			return {
 				id: input.imageId,
 				isDuplicate: false,
 				isPdf,
-				pageCount: isPdf ? input.pageCount : 1,
+				pageCount,
 				status: 'pending' as const,
 				wsUrl: `/api/ocr/${input.imageId}/ws`,
 				processUrl: `/api/ocr/${input.imageId}/process`,
@@ -266,9 +626,11 @@ export const imagesRouter = router({
 					userId: ctx.user.id,
 					imageKey: input.imageKey,
 					prompt,
+					model: modelId,
+					outputFormat,
 					isPdf,
-					pageCount: isPdf ? input.pageCount : 1,
-					pageImages: isPdf ? input.pageImages : null
+					pageCount,
+					pageImages
 				}
 			};
 		}),
@@ -277,7 +639,22 @@ export const imagesRouter = router({
 		.input(
 			z.object({
 				id: z.string().uuid(),
-				customPrompt: z.string().max(1000).nullable().optional()
+				customPrompt: z.string().max(1000).nullable().optional(),
+				model: modelSchema.optional(),
+				// Undefined keeps the format of the previous scan
+				outputFormat: outputFormatSchema.optional(),
+				// Null stops extracting fields, undefined keeps the previous schema
+				schema: extractionSchemaSchema.nullable().optional(),
+				// Apply a template's prompt, format, schema and model - explicit fields still win
+				templateId: z.string().min(1).optional(),
+				// Null stops translating, undefined keeps the previous target language
+				translateTo: translateToSchema.nullable().optional(),
+				// Undefined keeps reading word boxes if the previous scan did
+				layout: z.boolean().optional(),
+				// Clockwise rotation applied before OCR - null returns to auto-detection
+				rotation: rotationSchema.nullable().optional(),
+				// PDF pages to read - null reads every page, undefined keeps the previous selection
+				pageRange: pageRangeSchema.nullable().optional()
 			})
 		)
 		.mutation(async ({ ctx, input }) => {
@@ -302,9 +679,65 @@ export const imagesRouter = router({
 				});
 			}
 
-			// Update custom prompt - null clears it, undefined keeps existing
-			const newPrompt =
-				input.customPrompt === undefined ? existing.customPrompt : input.customPrompt;
+			const template = input.templateId
+				? await requireTemplate(ctx.user.id, input.templateId)
+				: null;
+
+			// Update custom prompt - null clears it, undefined keeps existing (or the template's)
+			const newPrompt = template
+				? combineTemplatePrompt(template.prompt, input.customPrompt)
+				: input.customPrompt === undefined
+					? existing.customPrompt
+					: input.customPrompt;
+
+			const outputFormat = input.outputFormat ?? template?.outputFormat ?? existing.outputFormat;
+
+			// Extraction schema - null clears it, undefined keeps existing (or the template's)
+			const extractionSchema =
+				input.schema !== undefined
+					? input.schema
+					: template
+						? template.schema
+						: existing.extractionSchema;
+
+			// Languages detected on the previous scan, passed on as a hint
+			const languages = parseLanguages(existing.language);
+
+			// Model - undefined keeps the one used for the previous scan, or moves a scan in a
+			// non-Latin script off the default model
+			let modelId = input.model ?? template?.model ?? existing.model ?? DEFAULT_OCR_MODEL;
+			if (input.model || template?.model) {
+				await assertModelAllowed(ctx.user.id, modelId);
+			} else {
+				const plan = await getUserPlan(ctx.user.id);
+				modelId = routeOcrModel(modelId, languages, plan.id);
+			}
+
+			// Rotation - null clears it, undefined keeps existing
+			const metadata = parseScanMetadata(existing.metadata);
+			if (input.rotation !== undefined) {
+				if (input.rotation === null) {
+					delete metadata.rotation;
+				} else {
+					metadata.rotation = input.rotation;
+				}
+			}
+
+			// A new page selection renders the PDF's pages again, before anything is reset
+			let pageImages = existing.pageImages;
+			let pageCount = existing.pageCount ?? 1;
+			const pageRange = input.pageRange === undefined ? existing.pageRange : input.pageRange;
+			if (pageRange !== existing.pageRange) {
+				if (!existing.isPdf) {
+					throw new TRPCError({
+						code: 'BAD_REQUEST',
+						message: 'Pages can only be selected for PDFs'
+					});
+				}
+				const plan = await getUserPlan(ctx.user.id);
+				pageImages = await replacePdfPages(platform.env, existing, pageRange, plan.maxPdfPages);
+				pageCount = pageImages.length;
+			}
 
 			// Reset the image status to pending
 			await db
@@ -312,13 +745,47 @@ export const imagesRouter = router({
 				.set({
 					status: 'pending',
 					extractedText: null,
+					confidence: null,
+					language: null,
+					extractedData: null,
+					extractionError: null,
 					errorMessage: null,
 					processingTimeMs: null,
 					customPrompt: newPrompt || null,
+					model: modelId,
+					outputFormat,
+					extractionSchema,
+					templateId: template ? template.id : existing.templateId,
+					translateTo: input.translateTo === undefined ? existing.translateTo : input.translateTo,
+					translatedText: null,
+					translationError: null,
+					layout: input.layout ?? existing.layout,
+					pageCount,
+					pageImages,
+					pageRange,
+					summary: null,
+					metadata,
 					updatedAt: now()
 				})
 				.where(eq(scannedImage.id, input.id));
 
+			// Pages are read again from scratch
+			await db
+				.update(scannedPage)
+				.set({
+					status: 'pending',
+					text: null,
+					confidence: null,
+					language: null,
+					translatedText: null,
+					layout: null,
+					method: null,
+					processingTimeMs: null,
+					errorMessage: null,
+					updatedAt: now()
+				})
+				.where(eq(scannedPage.imageId, input.id));
+
 			// Reset the DO session state
 			const doId = platform.env.OCR_SESSION.idFromName(input.id);
 			const stub = platform.env.OCR_SESSION.get(doId);
@@ -326,12 +793,12 @@ export const imagesRouter = router({
 			await stub.fetch(new Request('https://do/reset', { method: 'POST' }));
 
 			// Build the prompt for OCR processing
-			const prompt = buildPrompt(newPrompt);
+			const prompt = buildPrompt(newPrompt, { languages, outputFormat });
 
 			return {
 				id: input.id,
 				isPdf: existing.isPdf,
-				pageCount: existing.isPdf ? existing.pageCount : 1,
+				pageCount,
 				status: 'pending',
 				wsUrl: `/api/ocr/${input.id}/ws`,
 				processUrl: `/api/ocr/${input.id}/process`,
@@ -340,9 +807,100 @@ export const imagesRouter = router({
 					userId: ctx.user.id,
 					imageKey: existing.imageKey,
 					prompt,
+					model: modelId,
+					outputFormat,
+					rotation: metadata.rotation ?? null,
+					isPdf: existing.isPdf,
+					pageCount,
+					pageImages
+				}
+			};
+		}),
+
+	retryPages: protectedProcedure
+		.input(
+			z.object({
+				id: z.string().uuid(),
+				// Subset of the failed pages to retry - defaults to all of them
+				pageNumbers: z.array(z.number().int().positive()).min(1).optional()
+			})
+		)
+		.mutation(async ({ ctx, input }) => {
+			const platform = ctx.platform;
+
+			if (!platform?.env?.OCR_SESSION) {
+				throw new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: 'OCR service not configured'
+				});
+			}
+
+			const existing = await db.query.scannedImage.findFirst({
+				where: and(eq(scannedImage.id, input.id), eq(scannedImage.userId, ctx.user.id))
+			});
+
+			if (!existing) {
+				throw new TRPCError({
+					code: 'NOT_FOUND',
+					message: 'Image not found'
+				});
+			}
+
+			if (existing.status !== 'partial' && existing.status !== 'failed') {
+				throw new TRPCError({
+					code: 'BAD_REQUEST',
+					message: 'Only scans with failed pages can be retried'
+				});
+			}
+
+			const metadata = parseScanMetadata(existing.metadata);
+			const failedPages = (
+				await db.query.scannedPage.findMany({
+					where: and(eq(scannedPage.imageId, input.id), eq(scannedPage.status, 'failed')),
+					columns: { pageNumber: true }
+				})
+			).map((page) => page.pageNumber);
+			const retryPages = input.pageNumbers
+				? input.pageNumbers.filter((pageNumber) => failedPages.includes(pageNumber))
+				: failedPages;
+
+			if (retryPages.length === 0) {
+				throw new TRPCError({
+					code: 'BAD_REQUEST',
+					message: 'No failed pages to retry. Rescan the image instead.'
+				});
+			}
+
+			// Reset the DO session state
+			const doId = platform.env.OCR_SESSION.idFromName(input.id);
+			const stub = platform.env.OCR_SESSION.get(doId);
+
+			await stub.fetch(new Request('https://do/reset', { method: 'POST' }));
+
+			// Same prompt as the last scan so retried pages match the rest of the document
+			const prompt = buildPrompt(existing.customPrompt, {
+				outputFormat: existing.outputFormat
+			});
+
+			return {
+				id: input.id,
+				isPdf: existing.isPdf,
+				pageCount: existing.pageCount ?? 1,
+				retryPages,
+				wsUrl: `/api/ocr/${input.id}/ws`,
+				processUrl: `/api/ocr/${input.id}/process`,
+				processPayload: {
+					imageId: input.id,
+					userId: ctx.user.id,
+					imageKey: existing.imageKey,
+					prompt,
+					model: existing.model,
+					outputFormat: existing.outputFormat,
+					rotation: metadata.rotation ?? null,
 					isPdf: existing.isPdf,
-					pageCount: existing.isPdf ? existing.pageCount : 1,
-					pageImages: existing.isPdf ? existing.pageImages : null
+					pageCount: existing.pageCount ?? 1,
+					pageImages: existing.pageImages,
+					retryPages
 				}
 			};
 		}),
@@ -352,7 +910,7 @@ export const imagesRouter = router({
 		.mutation(async ({ ctx, input }) => {
 			const existing = await db.query.scannedImage.findFirst({
 				where: and(eq(scannedImage.id, input.id), eq(scannedImage.userId, ctx.user.id)),
-				columns: { id: true, imageKey: true, isPdf: true, pageImages: true }
+				columns: { id: true, imageKey: true, pageImages: true }
 			});
 
 			if (!existing) {
@@ -362,20 +920,21 @@ export const imagesRouter = router({
 				});
 			}
 
-			// Collect all R2 keys to delete (original + page images for PDFs)
-			const keysToDelete: string[] = [];
+			// Collect all R2 keys to delete (original + page images of PDFs and multi-image
+			// documents, whose original is their first page)
+			const keysToDelete = new Set<string>();
 			if (existing.imageKey) {
-				keysToDelete.push(existing.imageKey);
+				keysToDelete.add(existing.imageKey);
 			}
-			if (existing.isPdf && existing.pageImages) {
-				keysToDelete.push(...existing.pageImages);
+			for (const key of existing.pageImages ?? []) {
+				keysToDelete.add(key);
 			}
 
 			// Delete from R2 and DB in parallel
 			const platform = ctx.platform;
 			await Promise.all([
-				platform?.env?.R2_BUCKET && keysToDelete.length > 0
-					? Promise.all(keysToDelete.map((key) => platform.env.R2_BUCKET.delete(key)))
+				platform?.env?.R2_BUCKET && keysToDelete.size > 0
+					? Promise.all([...keysToDelete].map((key) => platform.env.R2_BUCKET.delete(key)))
 					: Promise.resolve(),
 				db.delete(scannedImage).where(eq(scannedImage.id, input.id))
 			]);
@@ -391,7 +950,7 @@ export const imagesRouter = router({
 			// Get all images that belong to this user
 			const existingImages = await db.query.scannedImage.findMany({
 				where: and(eq(scannedImage.userId, ctx.user.id), inArray(scannedImage.id, ids)),
-				columns: { id: true, imageKey: true, isPdf: true, pageImages: true }
+				columns: { id: true, imageKey: true, pageImages: true }
 			});
 
 			if (existingImages.length === 0) {
@@ -401,14 +960,15 @@ export const imagesRouter = router({
 				});
 			}
 
-			// Collect all R2 keys to delete (original files + page images for PDFs)
-			const keysToDelete: string[] = [];
+			// Collect all R2 keys to delete (original files + page images of PDFs and
+			// multi-image documents)
+			const keysToDelete = new Set<string>();
 			for (const img of existingImages) {
 				if (img.imageKey) {
-					keysToDelete.push(img.imageKey);
+					keysToDelete.add(img.imageKey);
 				}
-				if (img.isPdf && img.pageImages) {
-					keysToDelete.push(...img.pageImages);
+				for (const key of img.pageImages ?? []) {
+					keysToDelete.add(key);
 				}
 			}
 			const imageIds = existingImages.map((img) => img.id);
@@ -418,8 +978,8 @@ export const imagesRouter = router({
 			// Delete from R2 and DB in parallel
 			await Promise.all([
 				// Delete all images from R2
-				platform?.env?.R2_BUCKET && keysToDelete.length > 0
-					? Promise.all(keysToDelete.map((key) => platform.env.R2_BUCKET.delete(key)))
+				platform?.env?.R2_BUCKET && keysToDelete.size > 0
+					? Promise.all([...keysToDelete].map((key) => platform.env.R2_BUCKET.delete(key)))
 					: Promise.resolve(),
 				// Delete all from DB
 				db
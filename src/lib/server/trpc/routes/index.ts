@@ -7,3 +7,6 @@ export { plansRouter } from './plans.js';
 export { usageRouter } from './usage.js';
 export { dashboardRouter } from './dashboard.js';
 export { tokensRouter } from './tokens.js';
+export { modelsRouter } from './models.js';
+export { templatesRouter } from './templates.js';
+export { documentsRouter } from './documents.js';
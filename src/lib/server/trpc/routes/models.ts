@@ -0,0 +1,26 @@
+/**
+ * Models router
+ * Lists the OCR models and which ones the current plan may use
+ */
+
+import { router, protectedProcedure } from '../index.js';
+import { OCR_MODEL_LIST, DEFAULT_OCR_MODEL } from '$lib/server/config/models';
+import { getUserPlan } from '$lib/server/services/usage';
+
+export const modelsRouter = router({
+	list: protectedProcedure.query(async ({ ctx }) => {
+		const plan = await getUserPlan(ctx.user.id);
+
+		return {
+			defaultModel: DEFAULT_OCR_MODEL,
+			models: OCR_MODEL_LIST.map((model) => ({
+				id: model.id,
+				displayName: model.displayName,
+				description: model.description,
+				maxContext: model.maxContext,
+				plans: model.plans,
+				available: model.plans.includes(plan.id)
+			}))
+		};
+	})
+});
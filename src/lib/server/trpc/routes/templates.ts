@@ -0,0 +1,226 @@
+/**
+ * Templates router
+ * Lists the built-in extraction templates and manages the user's own
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../index.js';
+import { db } from '$lib/server/db';
+import { template } from '$lib/server/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { BUILTIN_TEMPLATE_LIST, isBuiltinTemplateId } from '$lib/server/config/templates';
+import { getTemplate } from '$lib/server/services/templates';
+import { generateId, now } from '$lib/server/utils';
+import {
+	assertModelAllowed,
+	extractionSchemaSchema,
+	modelSchema,
+	outputFormatSchema
+} from './images.js';
+
+// Limit on the number of templates per user
+const MAX_TEMPLATES = 50;
+
+const templateFieldsSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	description: z.string().max(300).nullable().optional(),
+	prompt: z.string().max(1000).nullable().optional(),
+	outputFormat: outputFormatSchema.default('text'),
+	schema: extractionSchemaSchema.nullable().optional(),
+	model: modelSchema.nullable().optional()
+});
+
+// Throws when the user already has the maximum number of templates
+async function assertTemplateLimit(userId: string): Promise<void> {
+	const existing = await db
+		.select({ id: template.id })
+		.from(template)
+		.where(eq(template.userId, userId));
+
+	if (existing.length >= MAX_TEMPLATES) {
+		throw new TRPCError({
+			code: 'BAD_REQUEST',
+			message: `You can have a maximum of ${MAX_TEMPLATES} templates. Please delete unused templates.`
+		});
+	}
+}
+
+// Throws for built-in templates, which are read-only
+function assertEditable(templateId: string): void {
+	if (isBuiltinTemplateId(templateId)) {
+		throw new TRPCError({
+			code: 'FORBIDDEN',
+			message: 'Built-in templates cannot be changed. Duplicate it to make your own version.'
+		});
+	}
+}
+
+export const templatesRouter = router({
+	/**
+	 * List the built-in templates followed by the user's own
+	 */
+	list: protectedProcedure.query(async ({ ctx }) => {
+		const own = await db
+			.select()
+			.from(template)
+			.where(eq(template.userId, ctx.user.id))
+			.orderBy(asc(template.name));
+
+		return [
+			...BUILTIN_TEMPLATE_LIST.map((t) => ({
+				...t,
+				builtIn: true,
+				createdAt: null,
+				updatedAt: null
+			})),
+			...own.map((t) => ({
+				id: t.id,
+				name: t.name,
+				description: t.description,
+				prompt: t.prompt,
+				outputFormat: t.outputFormat,
+				schema: t.schema,
+				model: t.model,
+				builtIn: false,
+				createdAt: t.createdAt.toISOString(),
+				updatedAt: t.updatedAt.toISOString()
+			}))
+		];
+	}),
+
+	/**
+	 * Create a template
+	 */
+	create: protectedProcedure.input(templateFieldsSchema).mutation(async ({ ctx, input }) => {
+		await assertTemplateLimit(ctx.user.id);
+		if (input.model) {
+			await assertModelAllowed(ctx.user.id, input.model);
+		}
+
+		const id = generateId();
+		const timestamp = now();
+
+		await db.insert(template).values({
+			id,
+			userId: ctx.user.id,
+			name: input.name,
+			description: input.description || null,
+			prompt: input.prompt?.trim() || null,
+			outputFormat: input.outputFormat,
+			schema: input.schema ?? null,
+			model: input.model ?? null,
+			createdAt: timestamp,
+			updatedAt: timestamp
+		});
+
+		return { id };
+	}),
+
+	/**
+	 * Update a template - omitted fields keep their value
+	 */
+	update: protectedProcedure
+		.input(
+			templateFieldsSchema
+				.partial()
+				.extend({ id: z.string().min(1), outputFormat: outputFormatSchema.optional() })
+		)
+		.mutation(async ({ ctx, input }) => {
+			assertEditable(input.id);
+
+			const existing = await db.query.template.findFirst({
+				where: and(eq(template.id, input.id), eq(template.userId, ctx.user.id))
+			});
+
+			if (!existing) {
+				throw new TRPCError({
+					code: 'NOT_FOUND',
+					message: 'Template not found'
+				});
+			}
+
+			if (input.model) {
+				await assertModelAllowed(ctx.user.id, input.model);
+			}
+
+			await db
+				.update(template)
+				.set({
+					name: input.name ?? existing.name,
+					description:
+						input.description === undefined ? existing.description : input.description || null,
+					prompt: input.prompt === undefined ? existing.prompt : input.prompt?.trim() || null,
+					outputFormat: input.outputFormat ?? existing.outputFormat,
+					schema: input.schema === undefined ? existing.schema : input.schema,
+					model: input.model === undefined ? existing.model : input.model,
+					updatedAt: now()
+				})
+				.where(eq(template.id, input.id));
+
+			return { success: true };
+		}),
+
+	/**
+	 * Delete a template. Scans made with it keep their settings
+	 */
+	delete: protectedProcedure
+		.input(z.object({ id: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			assertEditable(input.id);
+
+			// Check template belongs to user
+			const [existing] = await db
+				.select({ id: template.id })
+				.from(template)
+				.where(and(eq(template.id, input.id), eq(template.userId, ctx.user.id)));
+
+			if (!existing) {
+				throw new TRPCError({
+					code: 'NOT_FOUND',
+					message: 'Template not found'
+				});
+			}
+
+			await db.delete(template).where(eq(template.id, input.id));
+
+			return { success: true };
+		}),
+
+	/**
+	 * Copy a built-in or own template into a new template owned by the user
+	 */
+	duplicate: protectedProcedure
+		.input(z.object({ id: z.string().min(1), name: z.string().trim().min(1).max(100).optional() }))
+		.mutation(async ({ ctx, input }) => {
+			const source = await getTemplate(ctx.user.id, input.id);
+
+			if (!source) {
+				throw new TRPCError({
+					code: 'NOT_FOUND',
+					message: 'Template not found'
+				});
+			}
+
+			await assertTemplateLimit(ctx.user.id);
+
+			const id = generateId();
+			const timestamp = now();
+			const name = input.name ?? `${source.name} (copy)`.slice(0, 100);
+
+			await db.insert(template).values({
+				id,
+				userId: ctx.user.id,
+				name,
+				description: source.description,
+				prompt: source.prompt,
+				outputFormat: source.outputFormat,
+				schema: source.schema,
+				model: source.model,
+				createdAt: timestamp,
+				updatedAt: timestamp
+			});
+
+			return { id, name };
+		})
+});
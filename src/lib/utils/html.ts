@@ -0,0 +1,125 @@
+/**
+ * HTML utilities for OCR output
+ * Used by the server and the OCRSession Durable Object to clean up HTML answers and by the
+ * browser before rendering them, so this module has no imports.
+ */
+
+// Structural and inline tags an HTML answer may keep
+const ALLOWED_TAGS = new Set([
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'p',
+	'br',
+	'hr',
+	'ul',
+	'ol',
+	'li',
+	'strong',
+	'b',
+	'em',
+	'i',
+	'u',
+	's',
+	'sub',
+	'sup',
+	'blockquote',
+	'pre',
+	'code',
+	'table',
+	'caption',
+	'thead',
+	'tbody',
+	'tfoot',
+	'tr',
+	'th',
+	'td',
+	'div',
+	'span'
+]);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+// Table cell spans are the only attributes worth keeping
+const ALLOWED_ATTRIBUTES = new Set(['colspan', 'rowspan']);
+
+// Removed together with everything inside them
+const DROPPED_ELEMENTS =
+	/<(script|style|iframe|object|embed|template|noscript|title|head)\b[\s\S]*?<\/\1\s*>/gi;
+
+const TAG =
+	/<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s=>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/g;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+// Text between tags keeps its entities, stray angle brackets are escaped
+function escapeText(text: string): string {
+	return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Keep only allowed tags and attributes, dropping scripts, styles, event handlers and links
+ */
+export function sanitizeHtml(html: string): string {
+	const source = html.replace(/<!--[\s\S]*?(-->|$)/g, '').replace(DROPPED_ELEMENTS, '');
+
+	let result = '';
+	let lastIndex = 0;
+
+	for (const match of source.matchAll(TAG)) {
+		result += escapeText(source.slice(lastIndex, match.index));
+		lastIndex = match.index + match[0].length;
+
+		const [, closing, rawName, rawAttributes] = match;
+		const name = rawName.toLowerCase();
+		if (!ALLOWED_TAGS.has(name)) continue;
+
+		if (closing) {
+			if (!VOID_TAGS.has(name)) result += `</${name}>`;
+			continue;
+		}
+
+		let attributes = '';
+		for (const [, attrName, ...values] of rawAttributes.matchAll(ATTRIBUTE)) {
+			const value = values.find((v) => v !== undefined) ?? '';
+			if (ALLOWED_ATTRIBUTES.has(attrName.toLowerCase()) && /^\d{1,3}$/.test(value)) {
+				attributes += ` ${attrName.toLowerCase()}="${value}"`;
+			}
+		}
+		result += `<${name}${attributes}>`;
+	}
+
+	return result + escapeText(source.slice(lastIndex));
+}
+
+/**
+ * Plain text of an HTML fragment, keeping line breaks between blocks and tabs between cells
+ */
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<(p|div|h[1-6]|ul|ol|table|blockquote|pre)\b[^>]*>/gi, '\n')
+		.replace(/<\/(p|div|h[1-6]|li|tr|blockquote|pre|table|caption)>/gi, '\n')
+		.replace(/<\/(td|th)>/gi, '\t')
+		.replace(/<[^>]*>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, '&')
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
@@ -2,6 +2,8 @@
  * Image utilities for client-side processing
  */
 
+import { parsePageRange } from './page-range';
+
 /**
  * Maximum dimension for image resizing before upload
  * 1024px is optimal for OCR - fast processing while maintaining text readability
@@ -18,6 +20,11 @@ export const MAX_FILE_SIZE = 50 * 1024 * 1024;
  */
 export const IMAGE_QUALITY = 0.9;
 
+/**
+ * Maximum number of photos uploaded together as the pages of one document
+ */
+export const MAX_DOCUMENT_IMAGES = 50;
+
 /**
  * Allowed image MIME types for upload
  */
@@ -32,6 +39,16 @@ export const ALLOWED_IMAGE_MIME_TYPES = [
 	'image/bmp'
 ] as const;
 
+/**
+ * Image types most browsers cannot decode, uploaded as they are and split into page images
+ * on the server (every frame of a TIFF is a page)
+ */
+export const SERVER_DECODED_MIME_TYPES: readonly string[] = [
+	'image/heic',
+	'image/heif',
+	'image/tiff'
+];
+
 /**
  * PDF MIME type
  */
@@ -59,6 +76,13 @@ export function isAllowedMimeType(mimeType: string): mimeType is AllowedMimeType
 	return ALLOWED_MIME_TYPES.includes(mimeType as AllowedMimeType);
 }
 
+/**
+ * Check if a MIME type is decoded on the server instead of in the browser
+ */
+export function isServerDecodedMimeType(mimeType: string): boolean {
+	return SERVER_DECODED_MIME_TYPES.includes(mimeType);
+}
+
 /**
  * Check if a MIME type is PDF
  */
@@ -68,6 +92,8 @@ export function isPdfMimeType(mimeType: string): boolean {
 
 /**
  * Resize an image to fit within max dimensions while maintaining aspect ratio
+ * EXIF orientation is applied when decoding, so resized output is always upright.
+ * Images that need no resize are uploaded as-is and the server applies EXIF orientation.
  * Returns a Blob with the resized image
  */
 export async function resizeImage(
@@ -75,76 +101,61 @@ export async function resizeImage(
 	maxDimension: number = MAX_IMAGE_DIMENSION,
 	quality: number = IMAGE_QUALITY
 ): Promise<{ blob: Blob; width: number; height: number }> {
-	return new Promise((resolve, reject) => {
-		const img = new Image();
-		const url = URL.createObjectURL(file);
+	let bitmap: ImageBitmap;
+	try {
+		bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+	} catch {
+		throw new Error('Failed to load image');
+	}
 
-		img.onload = () => {
-			URL.revokeObjectURL(url);
+	try {
+		let { width, height } = bitmap;
 
-			let { width, height } = img;
-
-			// Check if resizing is needed
-			if (width <= maxDimension && height <= maxDimension) {
-				// No resize needed, but still get dimensions
-				file.arrayBuffer().then((buffer) => {
-					resolve({
-						blob: new Blob([buffer], { type: file.type }),
-						width,
-						height
-					});
-				});
-				return;
-			}
-
-			// Calculate new dimensions
-			if (width > height) {
-				height = Math.round((height / width) * maxDimension);
-				width = maxDimension;
-			} else {
-				width = Math.round((width / height) * maxDimension);
-				height = maxDimension;
-			}
-
-			// Create canvas and resize
-			const canvas = document.createElement('canvas');
-			canvas.width = width;
-			canvas.height = height;
-
-			const ctx = canvas.getContext('2d');
-			if (!ctx) {
-				reject(new Error('Failed to get canvas context'));
-				return;
-			}
-
-			// Use high-quality image smoothing
-			ctx.imageSmoothingEnabled = true;
-			ctx.imageSmoothingQuality = 'high';
-			ctx.drawImage(img, 0, 0, width, height);
-
-			// Determine output type - use JPEG for non-PNG to reduce size
-			const outputType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+		// Check if resizing is needed
+		if (width <= maxDimension && height <= maxDimension) {
+			// No resize needed, but still get dimensions
+			const buffer = await file.arrayBuffer();
+			return { blob: new Blob([buffer], { type: file.type }), width, height };
+		}
 
-			canvas.toBlob(
-				(blob) => {
-					if (blob) {
-						resolve({ blob, width, height });
-					} else {
-						reject(new Error('Failed to create blob from canvas'));
-					}
-				},
-				outputType,
-				quality
-			);
-		};
+		// Calculate new dimensions
+		if (width > height) {
+			height = Math.round((height / width) * maxDimension);
+			width = maxDimension;
+		} else {
+			width = Math.round((width / height) * maxDimension);
+			height = maxDimension;
+		}
 
-		img.onerror = () => {
-			URL.revokeObjectURL(url);
-			reject(new Error('Failed to load image'));
-		};
+		// Create canvas and resize
+		const canvas = document.createElement('canvas');
+		canvas.width = width;
+		canvas.height = height;
 
-		img.src = url;
-	});
+		const ctx = canvas.getContext('2d');
+		if (!ctx) {
+			throw new Error('Failed to get canvas context');
+		}
+
+		// Use high-quality image smoothing
+		ctx.imageSmoothingEnabled = true;
+		ctx.imageSmoothingQuality = 'high';
+		ctx.drawImage(bitmap, 0, 0, width, height);
+
+		// Determine output type - use JPEG for non-PNG to reduce size
+		const outputType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+
+		const blob = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, outputType, quality)
+		);
+		if (!blob) {
+			throw new Error('Failed to create blob from canvas');
+		}
+
+		return { blob, width, height };
+	} finally {
+		bitmap.close();
+	}
 }
 
 /**
@@ -225,33 +236,37 @@ export function formatDateTime(date: Date | string | number): string {
  * PDF page extraction result
  */
 export interface PdfPageResult {
-	pageNumber: number;
+	pageNumber: number; // In the PDF, not in the selection
 	blob: Blob;
 	width: number;
 	height: number;
+	text: string; // Embedded text layer, empty for scanned pages
 }
 
 /**
  * Result from processing a PDF file
  */
 export interface PdfProcessResult {
-	pageCount: number;
+	pageCount: number; // Pages of the PDF, selected or not
 	pages: PdfPageResult[];
 }
 
 /**
  * Extract pages from a PDF file as images
- * Uses pdf.js to render each page to a canvas
+ * Uses pdf.js to render each page to a canvas, and reads each page's embedded text so
+ * born-digital pages can skip OCR
  *
  * @param file The PDF file to process
  * @param maxDimension Maximum dimension for the rendered page images
  * @param quality JPEG quality for the rendered images
+ * @param pageRange Only render these pages, like "1-3,7,10-" (throws if it does not fit the PDF)
  * @returns Array of page blobs with dimensions
  */
 export async function extractPdfPages(
 	file: File,
 	maxDimension: number = MAX_IMAGE_DIMENSION,
-	quality: number = IMAGE_QUALITY
+	quality: number = IMAGE_QUALITY,
+	pageRange: string | null = null
 ): Promise<PdfProcessResult> {
 	// Dynamically import pdf.js
 	const pdfjsLib = await import('pdfjs-dist');
@@ -266,9 +281,12 @@ export async function extractPdfPages(
 
 	const pageCount = pdf.numPages;
 	const pages: PdfPageResult[] = [];
+	const selected = pageRange
+		? parsePageRange(pageRange, pageCount)
+		: Array.from({ length: pageCount }, (_, index) => index + 1);
 
-	// Process each page sequentially
-	for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
+	// Process each selected page sequentially
+	for (const pageNum of selected) {
 		const page = await pdf.getPage(pageNum);
 
 		// Get the original viewport at scale 1
@@ -313,11 +331,18 @@ export async function extractPdfPages(
 			);
 		});
 
+		// Text layer, with a line break wherever pdf.js found the end of a line
+		const content = await page.getTextContent();
+		const text = content.items
+			.map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+			.join('');
+
 		pages.push({
 			pageNumber: pageNum,
 			blob,
 			width: canvas.width,
-			height: canvas.height
+			height: canvas.height,
+			text
 		});
 	}
 
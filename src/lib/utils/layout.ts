@@ -0,0 +1,72 @@
+/**
+ * Page layout helpers for the image viewer
+ * Finds the word boxes of a text selection so the matching region of the page
+ * image can be highlighted.
+ */
+
+export type BBox = [number, number, number, number];
+
+/**
+ * Word and line boxes of a page, in pixels of the page image as displayed
+ */
+export interface PageLayout {
+	width: number;
+	height: number;
+	blocks: Array<{
+		bbox: BBox;
+		lines: Array<{ text: string; bbox: BBox; words: Array<{ text: string; bbox: BBox }> }>;
+	}>;
+}
+
+// Letters and digits only, so punctuation and Markdown markup do not break a match
+function normalize(word: string): string {
+	return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Boxes of every place the selected text appears on the page, one box per line.
+ * The first and last selected words may be cut off, so they only need to match
+ * the end and the start of a word.
+ */
+export function findSelectionBoxes(layout: PageLayout, selection: string): BBox[] {
+	const wanted = selection.split(/\s+/).map(normalize).filter(Boolean);
+	if (wanted.length === 0) return [];
+
+	const words = layout.blocks
+		.flatMap((block) => block.lines)
+		.flatMap((line, lineIndex) =>
+			line.words.map((word) => ({ key: normalize(word.text), bbox: word.bbox, lineIndex }))
+		)
+		.filter((word) => word.key);
+
+	const last = wanted.length - 1;
+	const matches = (key: string, index: number): boolean => {
+		if (last === 0) return key.includes(wanted[0]);
+		if (index === 0) return key.endsWith(wanted[0]);
+		if (index === last) return key.startsWith(wanted[last]);
+		return key === wanted[index];
+	};
+
+	// Matched words grouped by line, merged into one box each
+	const lines = new Map<number, BBox>();
+	for (let start = 0; start + last < words.length; start++) {
+		if (!wanted.every((_, index) => matches(words[start + index].key, index))) continue;
+
+		for (const word of words.slice(start, start + wanted.length)) {
+			const box = lines.get(word.lineIndex);
+			lines.set(
+				word.lineIndex,
+				box
+					? [
+							Math.min(box[0], word.bbox[0]),
+							Math.min(box[1], word.bbox[1]),
+							Math.max(box[2], word.bbox[2]),
+							Math.max(box[3], word.bbox[3])
+						]
+					: word.bbox
+			);
+		}
+	}
+
+	return [...lines.values()];
+}
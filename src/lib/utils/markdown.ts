@@ -0,0 +1,109 @@
+/**
+ * Minimal Markdown renderer for OCR output
+ * Covers what the Markdown output format asks the model for: headings, lists,
+ * emphasis, inline code, rules and pipe tables. Everything is escaped first,
+ * so the result is safe to render.
+ */
+
+import { escapeHtml } from './html';
+
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function renderInline(text: string): string {
+	return escapeHtml(text)
+		.replace(/`([^`]+)`/g, '<code>$1</code>')
+		.replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+		.replace(/(^|[^*\w])\*([^*\s][^*]*?)\*(?!\*)/g, '$1<em>$2</em>')
+		.replace(/(^|[^\w])_([^_\s][^_]*?)_(?!\w)/g, '$1<em>$2</em>');
+}
+
+function renderRow(line: string, cell: 'th' | 'td'): string {
+	const cells = line
+		.trim()
+		.replace(/^\||\|$/g, '')
+		.split('|')
+		.map((text) => `<${cell}>${renderInline(text.trim())}</${cell}>`);
+	return `<tr>${cells.join('')}</tr>`;
+}
+
+function renderTable(lines: string[]): string {
+	const [header, , ...rows] = lines;
+	const body = rows.map((row) => renderRow(row, 'td')).join('');
+	return `<table><thead>${renderRow(header, 'th')}</thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Render Markdown to HTML
+ */
+export function renderMarkdown(markdown: string): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const html: string[] = [];
+	let paragraph: string[] = [];
+	let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+	const flush = () => {
+		if (paragraph.length > 0) {
+			html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+			paragraph = [];
+		}
+		if (list) {
+			html.push(
+				`<${list.tag}>${list.items.map((item) => `<li>${item}</li>`).join('')}</${list.tag}>`
+			);
+			list = null;
+		}
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const trimmed = line.trim();
+
+		if (!trimmed) {
+			flush();
+			continue;
+		}
+
+		// Pipe table: header row followed by a separator row
+		if (trimmed.includes('|') && TABLE_SEPARATOR.test(lines[i + 1]?.trim() ?? '')) {
+			flush();
+			const table = [trimmed, lines[i + 1]];
+			i += 2;
+			while (i < lines.length && lines[i].trim().includes('|')) {
+				table.push(lines[i]);
+				i++;
+			}
+			i--;
+			html.push(renderTable(table));
+			continue;
+		}
+
+		const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+		if (heading) {
+			flush();
+			const level = heading[1].length;
+			html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+			continue;
+		}
+
+		if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+			flush();
+			html.push('<hr>');
+			continue;
+		}
+
+		const item = trimmed.match(/^([-*+]|\d+[.)])\s+(.*)$/);
+		if (item) {
+			const tag = /^\d/.test(item[1]) ? 'ol' : 'ul';
+			if (paragraph.length > 0 || (list && list.tag !== tag)) flush();
+			list ??= { tag, items: [] };
+			list.items.push(renderInline(item[2]));
+			continue;
+		}
+
+		if (list) flush();
+		paragraph.push(trimmed);
+	}
+
+	flush();
+	return html.join('\n');
+}
@@ -0,0 +1,61 @@
+/**
+ * Page ranges
+ * A selection of PDF pages like "1-3,7,10-": page numbers and ranges separated by commas,
+ * where a range without an end runs to the last page. Page numbers start at 1.
+ * Used by the upload page, the server and the OCRSession Durable Object, so this module
+ * has no imports.
+ */
+
+// Longest selection accepted
+export const MAX_PAGE_RANGE_LENGTH = 200;
+
+const PAGE_RANGE_PATTERN = /^\d+(-\d*)?(,\d+(-\d*)?)*$/;
+
+/**
+ * Remove the spaces around numbers and commas, "1 - 3, 7" -> "1-3,7"
+ */
+export function normalizePageRange(range: string): string {
+	return range.replace(/\s+/g, '');
+}
+
+/**
+ * Check the syntax of a selection, without a document to check it against
+ */
+export function isPageRange(range: string): boolean {
+	const normalized = normalizePageRange(range);
+	return normalized.length <= MAX_PAGE_RANGE_LENGTH && PAGE_RANGE_PATTERN.test(normalized);
+}
+
+/**
+ * Page numbers a selection picks from a document of pageCount pages, in ascending order.
+ * Pages past the end of the document are left out. Throws on malformed selections and
+ * on selections that pick no page of the document.
+ */
+export function parsePageRange(range: string, pageCount: number): number[] {
+	const normalized = normalizePageRange(range);
+	if (!isPageRange(normalized)) {
+		throw new Error(`Invalid page selection "${range}". Use pages and ranges like 1-3,7,10-`);
+	}
+
+	const pages = new Set<number>();
+	for (const part of normalized.split(',')) {
+		const [startText, endText] = part.split('-');
+		const start = Number(startText);
+		// An open range starting past the end is left out like the other pages past the end
+		const end =
+			endText === undefined ? start : endText === '' ? Math.max(start, pageCount) : Number(endText);
+
+		if (start < 1 || end < start) {
+			throw new Error(`Invalid page range "${part}"`);
+		}
+		for (let page = start; page <= Math.min(end, pageCount); page++) {
+			pages.add(page);
+		}
+	}
+
+	if (pages.size === 0) {
+		throw new Error(`The selection "${range}" has no pages of this ${pageCount}-page document`);
+	}
+
+	return [...pages].sort((a, b) => a - b);
+}
@@ -0,0 +1,9 @@
+/**
+ * PDF text layers
+ * Limits shared by the upload page, which reads the text layers, and the server, which takes
+ * them instead of reading the pages with the model. Used by the OCRSession Durable Object too,
+ * so this module has no imports.
+ */
+
+// Longest text layer kept for a page, longer ones are not a page of text
+export const MAX_TEXT_LAYER_LENGTH = 100_000;
@@ -0,0 +1,37 @@
+/**
+ * Scan export endpoint
+ *
+ * GET /api/images/:id/export.pdf - Searchable PDF, the page images or original PDF pages
+ *   with the text as an invisible layer
+ * GET /api/images/:id/export.hocr - hOCR (XHTML) with block, line and word boxes
+ * GET /api/images/:id/export.alto - ALTO v4 XML with block, line and word boxes
+ *
+ * Pages scanned without layout are exported with their size only in hOCR and ALTO.
+ */
+
+import type { RequestHandler } from './$types';
+import { error } from '@sveltejs/kit';
+import { exportScan, isExportFormat } from '$lib/server/services/exports';
+
+export const GET: RequestHandler = async ({ params, locals, platform }) => {
+	if (!locals.user) {
+		throw error(401, 'Unauthorized');
+	}
+
+	if (!isExportFormat(params.format)) {
+		throw error(404, 'Unknown export format');
+	}
+
+	const result = await exportScan(locals.user.id, params.id, params.format, platform?.env);
+	if (!result.success) {
+		throw error(result.statusCode, result.error);
+	}
+
+	return new Response(result.body, {
+		headers: {
+			'Content-Type': result.contentType,
+			'Content-Disposition': `attachment; filename="${encodeURIComponent(result.fileName)}"`,
+			'Cache-Control': 'private, no-store'
+		}
+	});
+};
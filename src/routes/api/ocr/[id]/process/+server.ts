@@ -5,8 +5,9 @@
 
 import type { RequestEvent } from '@sveltejs/kit';
 import { db } from '$lib/server/db';
-import { scannedImage } from '$lib/server/db/schema';
+import { scannedImage, scannedPage } from '$lib/server/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { parseScanMetadata } from '$lib/server/ocr/metadata';
 
 export async function POST({ params, request, platform, locals }: RequestEvent) {
 	// Verify user is authenticated
@@ -34,7 +35,20 @@ export async function POST({ params, request, platform, locals }: RequestEvent)
 
 	// Verify user owns this image
 	const image = await db
-		.select({ id: scannedImage.id, imageKey: scannedImage.imageKey })
+		.select({
+			id: scannedImage.id,
+			status: scannedImage.status,
+			imageKey: scannedImage.imageKey,
+			isPdf: scannedImage.isPdf,
+			pageCount: scannedImage.pageCount,
+			pageImages: scannedImage.pageImages,
+			model: scannedImage.model,
+			outputFormat: scannedImage.outputFormat,
+			extractionSchema: scannedImage.extractionSchema,
+			translateTo: scannedImage.translateTo,
+			layout: scannedImage.layout,
+			metadata: scannedImage.metadata
+		})
 		.from(scannedImage)
 		.where(and(eq(scannedImage.id, imageId), eq(scannedImage.userId, locals.user.id)))
 		.limit(1);
@@ -52,6 +66,32 @@ export async function POST({ params, request, platform, locals }: RequestEvent)
 		// Ensure the userId in the body matches the authenticated user
 		body.userId = locals.user.id;
 
+		// Always use the model stored on the record (plan access was checked when it was set)
+		body.model = image[0].model;
+		body.outputFormat = image[0].outputFormat;
+		body.extractionSchema = image[0].extractionSchema;
+		body.translateTo = image[0].translateTo;
+		body.layout = image[0].layout;
+		body.imageKey = image[0].imageKey;
+		body.isPdf = image[0].isPdf;
+		body.pageCount = image[0].pageCount ?? 1;
+		body.pageImages = image[0].pageImages;
+
+		// Only pages that failed in the last scan can be retried on their own. Waiting for the
+		// result is left to the REST API.
+		const retryPages = await failedRetryPages(image[0], body.retryPages);
+		if (retryPages?.length === 0) {
+			return new Response(JSON.stringify({ error: 'No failed pages to retry' }), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' }
+			});
+		}
+		body.retryPages = retryPages;
+		delete body.wait;
+
+		// Manual rotation chosen with "rotate and rescan", if any
+		body.rotation = parseScanMetadata(image[0].metadata).rotation ?? null;
+
 		// Get the DO instance for this image
 		const doId = platform.env.OCR_SESSION.idFromName(imageId);
 		const stub = platform.env.OCR_SESSION.get(doId);
@@ -81,3 +121,22 @@ export async function POST({ params, request, platform, locals }: RequestEvent)
 		);
 	}
 }
+
+// The requested pages that failed in the last scan, null when no pages were requested
+async function failedRetryPages(
+	image: { id: string; status: string },
+	requested: unknown
+): Promise<number[] | null> {
+	if (!Array.isArray(requested)) return null;
+	if (image.status !== 'partial' && image.status !== 'failed') return [];
+
+	const failedPages = await db
+		.select({ pageNumber: scannedPage.pageNumber })
+		.from(scannedPage)
+		.where(and(eq(scannedPage.imageId, image.id), eq(scannedPage.status, 'failed')));
+	const retryPages = failedPages
+		.map((page) => page.pageNumber)
+		.filter((pageNumber) => requested.includes(pageNumber));
+
+	return retryPages;
+}
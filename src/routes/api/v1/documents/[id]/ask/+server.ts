@@ -0,0 +1,88 @@
+/**
+ * Public API endpoint for questions about a scanned document
+ *
+ * POST /api/v1/documents/:id/ask
+ * Authorization: Bearer <api_token>
+ * Content-Type: application/json
+ *
+ * Body:
+ * - question: The question to answer from the document's text (required)
+ *
+ * Responds once the answer is complete, with the page numbers it cites.
+ * The app streams answers over the scan's WebSocket instead (documents.ask).
+ */
+
+import type { RequestHandler } from '@sveltejs/kit';
+import { validateApiToken, apiError, apiSuccess } from '$lib/server/auth/api-token';
+import { getOcrModel } from '$lib/server/config/models';
+import { getOcrProvider } from '$lib/server/ocr/providers';
+import { askDocument, DOCUMENT_TIMEOUT_MS, MAX_QUESTION_LENGTH } from '$lib/server/ocr/documents';
+import { getDocument } from '$lib/server/services/documents';
+
+export const POST: RequestHandler = async ({ params, request, platform }) => {
+	// Validate API token
+	const authHeader = request.headers.get('Authorization');
+	const authResult = await validateApiToken(authHeader);
+
+	if (!authResult.success || !authResult.user) {
+		return apiError(authResult.error || 'Unauthorized', authResult.statusCode || 401);
+	}
+
+	let body: { question?: unknown };
+	try {
+		body = await request.json();
+	} catch {
+		return apiError('Invalid request body. Expected application/json.', 400);
+	}
+
+	const question = typeof body.question === 'string' ? body.question.trim() : '';
+	if (!question) {
+		return apiError('Missing required field: question', 400);
+	}
+	if (question.length > MAX_QUESTION_LENGTH) {
+		return apiError(`Question too long. Maximum length: ${MAX_QUESTION_LENGTH} characters`, 400);
+	}
+
+	const document = await getDocument(authResult.user.id, params.id ?? '');
+	if (!document.success) {
+		return apiError(document.error, document.statusCode);
+	}
+
+	const signal = AbortSignal.timeout(DOCUMENT_TIMEOUT_MS);
+	try {
+		const startTime = Date.now();
+		const result = await askDocument(
+			getOcrProvider(platform?.env),
+			getOcrModel(document.image.model),
+			document.pages,
+			question,
+			{ signal }
+		);
+
+		return apiSuccess({
+			id: document.image.id,
+			question,
+			answer: result.answer,
+			citations: result.citations,
+			processingTimeMs: Date.now() - startTime
+		});
+	} catch (error) {
+		console.error('[API Documents] Question failed:', error);
+		return signal.aborted
+			? apiError('Answering the question took too long. Please try again.', 504)
+			: apiError('Failed to answer the question. Please try again.', 500);
+	}
+};
+
+// Handle OPTIONS for CORS preflight
+export const OPTIONS: RequestHandler = async () => {
+	return new Response(null, {
+		status: 204,
+		headers: {
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'POST, OPTIONS',
+			'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+			'Access-Control-Max-Age': '86400'
+		}
+	});
+};
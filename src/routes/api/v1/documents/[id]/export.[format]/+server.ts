@@ -0,0 +1,62 @@
+/**
+ * Public API endpoint for exporting a scanned document
+ *
+ * GET /api/v1/documents/:id/export.pdf
+ * GET /api/v1/documents/:id/export.hocr
+ * GET /api/v1/documents/:id/export.alto
+ * Authorization: Bearer <api_token>
+ *
+ * The PDF holds the original pages, or the page images, with the text as an invisible
+ * layer so it can be searched and indexed. hOCR and ALTO carry the word boxes of scans
+ * read with layout.
+ */
+
+import type { RequestHandler } from '@sveltejs/kit';
+import { validateApiToken, apiError } from '$lib/server/auth/api-token';
+import { exportScan, isExportFormat } from '$lib/server/services/exports';
+
+export const GET: RequestHandler = async ({ params, request, platform }) => {
+	// Validate API token
+	const authHeader = request.headers.get('Authorization');
+	const authResult = await validateApiToken(authHeader);
+
+	if (!authResult.success || !authResult.user) {
+		return apiError(authResult.error || 'Unauthorized', authResult.statusCode || 401);
+	}
+
+	const format = params.format ?? '';
+	if (!isExportFormat(format)) {
+		return apiError(`Unsupported export format: ${format}. Use pdf, hocr or alto.`, 400);
+	}
+
+	try {
+		const result = await exportScan(authResult.user.id, params.id ?? '', format, platform?.env);
+		if (!result.success) {
+			return apiError(result.error, result.statusCode);
+		}
+
+		return new Response(result.body, {
+			headers: {
+				'Content-Type': result.contentType,
+				'Content-Disposition': `attachment; filename="${encodeURIComponent(result.fileName)}"`,
+				'Access-Control-Allow-Origin': '*'
+			}
+		});
+	} catch (error) {
+		console.error('[API Documents] Export failed:', error);
+		return apiError('Failed to export the document. Please try again.', 500);
+	}
+};
+
+// Handle OPTIONS for CORS preflight
+export const OPTIONS: RequestHandler = async () => {
+	return new Response(null, {
+		status: 204,
+		headers: {
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'GET, OPTIONS',
+			'Access-Control-Allow-Headers': 'Authorization',
+			'Access-Control-Max-Age': '86400'
+		}
+	});
+};
@@ -0,0 +1,106 @@
+/**
+ * Public API endpoint for asynchronous OCR jobs
+ *
+ * POST /api/v1/jobs
+ * Authorization: Bearer <api_token>
+ * Content-Type: multipart/form-data or application/json
+ *
+ * Takes the same body as POST /api/v1/ocr, stores the scan and starts reading it in its
+ * OCRSession Durable Object, then answers 202 with the job id without waiting for the pages.
+ * GET /api/v1/jobs/:id returns its progress and result, DELETE /api/v1/jobs/:id cancels it.
+ */
+
+import type { RequestHandler } from '@sveltejs/kit';
+import { validateApiToken, apiError, apiSuccess } from '$lib/server/auth/api-token';
+import { db } from '$lib/server/db';
+import { scannedImage, getPlan } from '$lib/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { checkAndIncrementUsage } from '$lib/server/services/usage';
+import { readScanRequest, startScan, storeScan } from '$lib/server/services/api-scans';
+
+export const POST: RequestHandler = async ({ request, platform }) => {
+	// Validate API token
+	const authHeader = request.headers.get('Authorization');
+	const authResult = await validateApiToken(authHeader);
+
+	if (!authResult.success || !authResult.user) {
+		return apiError(authResult.error || 'Unauthorized', authResult.statusCode || 401);
+	}
+
+	const user = authResult.user;
+
+	// Check usage limits
+	const plan = getPlan(user.planId);
+	const usageCheck = await checkAndIncrementUsage(user.id, 0); // Check only, don't increment yet
+
+	if (!usageCheck.allowed) {
+		return apiError(
+			`Monthly limit reached. You have used ${usageCheck.currentUsage} of ${usageCheck.limit} images this month.`,
+			429
+		);
+	}
+
+	// File and settings from a multipart or JSON body
+	const parsed = await readScanRequest(request, user.id, plan);
+	if (!parsed.success) {
+		return apiError(parsed.error, parsed.statusCode);
+	}
+
+	const { file, settings } = parsed;
+
+	try {
+		const stored = await storeScan(user.id, file, settings, plan.maxPdfPages, platform?.env);
+		if (!stored.success) {
+			return apiError(stored.error, stored.statusCode);
+		}
+
+		const { scan } = stored;
+		if (!(await startScan(user.id, scan, settings, platform?.env, false))) {
+			await db
+				.update(scannedImage)
+				.set({
+					status: 'failed',
+					errorMessage: 'Processing failed to start',
+					updatedAt: new Date()
+				})
+				.where(eq(scannedImage.id, scan.imageId));
+			return apiError('OCR processing failed to start. Please try again.', 500);
+		}
+
+		// Counted when the job starts, like scans uploaded on the dashboard
+		await checkAndIncrementUsage(user.id, file.size, {
+			pageCount: scan.pageImages?.length ?? 1,
+			textLayerPages: scan.textLayerPages,
+			modelPasses: !!(settings.layout || settings.translateTo || settings.extractionSchema)
+		});
+
+		return apiSuccess(
+			{
+				id: scan.imageId,
+				status: 'processing',
+				pageCount: scan.pageCount,
+				statusUrl: `/api/v1/jobs/${scan.imageId}`,
+				fileName: file.name,
+				fileSize: file.size,
+				mimeType: file.type
+			},
+			202
+		);
+	} catch (error) {
+		console.error('[API Jobs] Error:', error);
+		return apiError('An unexpected error occurred', 500);
+	}
+};
+
+// Handle OPTIONS for CORS preflight
+export const OPTIONS: RequestHandler = async () => {
+	return new Response(null, {
+		status: 204,
+		headers: {
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'POST, OPTIONS',
+			'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+			'Access-Control-Max-Age': '86400'
+		}
+	});
+};
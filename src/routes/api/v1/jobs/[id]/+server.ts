@@ -0,0 +1,76 @@
+/**
+ * Public API endpoint for an asynchronous OCR job
+ *
+ * GET /api/v1/jobs/:id
+ * Authorization: Bearer <api_token>
+ *
+ * Returns the job's status ('pending', 'processing', 'completed', 'partial', 'failed' or
+ * 'cancelled'), its progress in pages and, once it has completed, the result
+ * POST /api/v1/ocr returns.
+ *
+ * DELETE /api/v1/jobs/:id
+ * Authorization: Bearer <api_token>
+ *
+ * Cancels a job that is still running. The pages read so far keep their text.
+ */
+
+import type { RequestHandler } from '@sveltejs/kit';
+import { validateApiToken, apiError, apiSuccess } from '$lib/server/auth/api-token';
+import { cancelJob, getJob } from '$lib/server/services/jobs';
+
+export const GET: RequestHandler = async ({ params, request }) => {
+	// Validate API token
+	const authHeader = request.headers.get('Authorization');
+	const authResult = await validateApiToken(authHeader);
+
+	if (!authResult.success || !authResult.user) {
+		return apiError(authResult.error || 'Unauthorized', authResult.statusCode || 401);
+	}
+
+	try {
+		const result = await getJob(authResult.user.id, params.id ?? '');
+		if (!result.success) {
+			return apiError(result.error, result.statusCode);
+		}
+
+		return apiSuccess(result.job);
+	} catch (error) {
+		console.error('[API Jobs] Status failed:', error);
+		return apiError('Failed to load the job. Please try again.', 500);
+	}
+};
+
+export const DELETE: RequestHandler = async ({ params, request, platform }) => {
+	// Validate API token
+	const authHeader = request.headers.get('Authorization');
+	const authResult = await validateApiToken(authHeader);
+
+	if (!authResult.success || !authResult.user) {
+		return apiError(authResult.error || 'Unauthorized', authResult.statusCode || 401);
+	}
+
+	try {
+		const result = await cancelJob(authResult.user.id, params.id ?? '', platform?.env);
+		if (!result.success) {
+			return apiError(result.error, result.statusCode);
+		}
+
+		return apiSuccess(result.job);
+	} catch (error) {
+		console.error('[API Jobs] Cancel failed:', error);
+		return apiError('Failed to cancel the job. Please try again.', 500);
+	}
+};
+
+// Handle OPTIONS for CORS preflight
+export const OPTIONS: RequestHandler = async () => {
+	return new Response(null, {
+		status: 204,
+		headers: {
+			'Access-Control-Allow-Origin': '*',
+			'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+			'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+			'Access-Control-Max-Age': '86400'
+		}
+	});
+};
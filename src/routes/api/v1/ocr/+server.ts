@@ -3,38 +3,92 @@
  *
  * POST /api/v1/ocr
  * Authorization: Bearer <api_token>
- * Content-Type: multipart/form-data
+ * Content-Type: multipart/form-data or application/json
  *
  * Body:
- * - file: The image file to process (required)
+ * - file: The image or PDF file to process (required in multipart bodies). PDF pages and TIFF
+ *   frames are rendered on the server and read one by one, up to the page limit of the user's
+ *   plan. HEIC/HEIF photos are decoded on the server too. Files are read by the scan's OCRSession
+ *   Durable Object, which preprocesses and straightens images like dashboard uploads
  * - prompt: Custom prompt for OCR (optional)
+ * - model: OCR model id (optional, defaults to the registry default)
+ * - outputFormat: 'text' (default), 'markdown' or 'html' (optional)
+ * - schema: JSON Schema of fields to extract into `data` (optional)
+ * - templateId: Built-in or own template supplying the fields above (optional, explicit fields win)
+ * - translateTo: ISO 639-1 code of a language to translate the text into (optional)
+ * - layout: 'true' to also return word and line boxes, exportable as hOCR or ALTO (optional)
+ * - pages: PDF pages to read, like '1-3,7,10-' (optional, defaults to every page)
+ *
+ * JSON bodies take the same fields, with the file given as one of:
+ * - url: An https:// URL the file is downloaded from, on a public address
+ * - data: The file as base64 or a data: URL, with fileName (required) and mimeType (optional,
+ *   defaults to the type of the data URL, then of the fileName extension)
+ * schema may be given as a JSON object and layout as a boolean.
  */
 
 import type { RequestHandler } from '@sveltejs/kit';
 import { validateApiToken, apiError, apiSuccess } from '$lib/server/auth/api-token';
 import { db } from '$lib/server/db';
-import { scannedImage, getPlan } from '$lib/server/db/schema';
-import { generateId } from '$lib/server/utils';
-import { buildPrompt, OCR_MODEL, OCR_OPTIONS } from '$lib/server/ocr';
+import { scannedImage, scannedPage, getPlan } from '$lib/server/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { parsePageLayout } from '$lib/server/ocr/layout';
 import { checkAndIncrementUsage } from '$lib/server/services/usage';
+import {
+	readScanRequest,
+	startScan,
+	storeScan,
+	toApiResult,
+	type ApiScanSettings
+} from '$lib/server/services/api-scans';
 
-// Maximum file size (50MB)
-const MAX_FILE_SIZE = 50 * 1024 * 1024;
+/**
+ * Read a file in its scan's OCRSession Durable Object, like a file uploaded on the dashboard,
+ * and answer once every page is read. Images are preprocessed and straightened there, and
+ * PDF, TIFF and HEIC/HEIF files are rendered to page images first.
+ */
+async function processScan(
+	userId: string,
+	file: File,
+	settings: ApiScanSettings,
+	maxPages: number,
+	env: App.Platform['env'] | undefined
+): Promise<Response> {
+	const stored = await storeScan(userId, file, settings, maxPages, env);
+	if (!stored.success) {
+		return apiError(stored.error, stored.statusCode);
+	}
 
-// Allowed MIME types
-const ALLOWED_MIME_TYPES = [
-	'image/jpeg',
-	'image/png',
-	'image/gif',
-	'image/webp',
-	'image/heic',
-	'image/heif',
-	'image/tiff',
-	'image/bmp'
-];
+	const { imageId, pageImages } = stored.scan;
+	if (!(await startScan(userId, stored.scan, settings, env, true))) {
+		return apiError('OCR processing failed. Please try again.', 500);
+	}
 
-// Ollama endpoint
-const OLLAMA_ENDPOINT = 'https://ollama.itsocr.com';
+	const image = await db.query.scannedImage.findFirst({
+		where: eq(scannedImage.id, imageId),
+		with: {
+			pages: { orderBy: [asc(scannedPage.pageNumber)] }
+		}
+	});
+
+	if (!image || (image.status !== 'completed' && image.status !== 'partial')) {
+		console.error('[API OCR] Processing failed:', image?.errorMessage);
+		return apiError('OCR processing failed. Please try again.', 500);
+	}
+
+	await checkAndIncrementUsage(userId, file.size, {
+		pageCount: image.pages.length,
+		textLayerPages: image.pages.filter((page) => page.method === 'text-layer').length,
+		modelPasses: !!(settings.layout || settings.translateTo || settings.extractionSchema)
+	});
+
+	return apiSuccess({
+		id: imageId,
+		status: image.status,
+		...toApiResult(image),
+		// A single image also has its boxes next to its text
+		...(pageImages ? {} : { layout: parsePageLayout(image.pages[0]?.layout ?? null) })
+	});
+}
 
 export const POST: RequestHandler = async ({ request, platform }) => {
 	// Validate API token
@@ -58,119 +112,16 @@ export const POST: RequestHandler = async ({ request, platform }) => {
 		);
 	}
 
-	// Parse multipart form data
-	let formData: FormData;
-	try {
-		formData = await request.formData();
-	} catch {
-		return apiError('Invalid request body. Expected multipart/form-data.', 400);
+	// File and settings from a multipart or JSON body
+	const parsed = await readScanRequest(request, user.id, plan);
+	if (!parsed.success) {
+		return apiError(parsed.error, parsed.statusCode);
 	}
 
-	const file = formData.get('file');
-	const customPrompt = formData.get('prompt');
-
-	if (!file || !(file instanceof File)) {
-		return apiError('Missing required field: file', 400);
-	}
-
-	// Validate file type
-	if (!ALLOWED_MIME_TYPES.includes(file.type)) {
-		return apiError(
-			`Unsupported file type: ${file.type}. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`,
-			400
-		);
-	}
-
-	// Validate file size
-	if (file.size > MAX_FILE_SIZE) {
-		return apiError(`File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`, 400);
-	}
-
-	// Check plan-specific file size limit
-	const planMaxSize = plan.maxImageSizeMb * 1024 * 1024;
-	if (file.size > planMaxSize) {
-		return apiError(`File too large for your plan. Maximum size: ${plan.maxImageSizeMb}MB`, 400);
-	}
+	const { file, settings } = parsed;
 
 	try {
-		// Convert file to base64
-		const arrayBuffer = await file.arrayBuffer();
-		const bytes = new Uint8Array(arrayBuffer);
-		const chunkSize = 32768;
-		let binary = '';
-		for (let i = 0; i < bytes.length; i += chunkSize) {
-			const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
-			binary += String.fromCharCode(...chunk);
-		}
-		const imageBase64 = btoa(binary);
-
-		// Build prompt
-		const prompt = buildPrompt(typeof customPrompt === 'string' ? customPrompt : null);
-
-		// Call Ollama for OCR
-		const startTime = Date.now();
-		const response = await fetch(OLLAMA_ENDPOINT + '/api/generate', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				model: OCR_MODEL,
-				prompt: prompt,
-				images: [imageBase64],
-				stream: false,
-				options: OCR_OPTIONS,
-				keep_alive: '30m'
-			})
-		});
-
-		if (!response.ok) {
-			const errorText = await response.text();
-			console.error('[API OCR] Ollama error:', errorText);
-			return apiError('OCR processing failed. Please try again.', 500);
-		}
-
-		const data = (await response.json()) as { response: string };
-		const processingTimeMs = Date.now() - startTime;
-		const extractedText = (data.response || '').trim();
-
-		// Increment usage
-		await checkAndIncrementUsage(user.id, file.size);
-
-		// Optionally store in database if R2 is available
-		const imageId = generateId();
-		const now = new Date();
-
-		if (platform?.env?.R2_BUCKET) {
-			// Store image in R2
-			const imageKey = `api/${user.id}/${imageId}.${file.name.split('.').pop() || 'jpg'}`;
-			await platform.env.R2_BUCKET.put(imageKey, arrayBuffer, {
-				httpMetadata: { contentType: file.type }
-			});
-
-			// Store record in database
-			await db.insert(scannedImage).values({
-				id: imageId,
-				userId: user.id,
-				fileName: file.name,
-				imageKey,
-				originalUrl: `/api/images/${imageKey}`,
-				mimeType: file.type,
-				fileSizeBytes: file.size,
-				extractedText,
-				processingTimeMs,
-				status: 'completed',
-				createdAt: now,
-				updatedAt: now
-			});
-		}
-
-		return apiSuccess({
-			id: imageId,
-			text: extractedText,
-			processingTimeMs,
-			fileName: file.name,
-			fileSize: file.size,
-			mimeType: file.type
-		});
+		return await processScan(user.id, file, settings, plan.maxPdfPages, platform?.env);
 	} catch (error) {
 		console.error('[API OCR] Error:', error);
 		return apiError('An unexpected error occurred', 500);
@@ -0,0 +1,5 @@
+// WebAssembly modules imported by the Durable Objects, compiled by wrangler at deploy time
+declare module '*.wasm' {
+	const module: WebAssembly.Module;
+	export default module;
+}